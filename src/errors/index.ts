@@ -0,0 +1,106 @@
+import { BatchResult, FailureBudgetReason, LockHolder } from '../types';
+
+/**
+ * Thrown when a resumed run is given a different input list than the one
+ * recorded in the saved state
+ */
+export class InputChangedError extends Error {
+  readonly expectedFingerprint: string;
+  readonly actualFingerprint: string;
+
+  constructor(expectedFingerprint: string, actualFingerprint: string) {
+    super(
+      `Input has changed since the last checkpoint (expected fingerprint ${expectedFingerprint}, got ${actualFingerprint})`
+    );
+    this.name = 'InputChangedError';
+    this.expectedFingerprint = expectedFingerprint;
+    this.actualFingerprint = actualFingerprint;
+  }
+}
+
+/**
+ * Thrown by a process function to report a server `Retry-After`. When a rate
+ * limit is configured, the limiter pauses all requests for `retryAfterMs`.
+ */
+export class RetryAfterError extends Error {
+  readonly retryAfterMs: number;
+
+  constructor(retryAfterMs: number, message = `Retry after ${retryAfterMs}ms`) {
+    super(message);
+    this.name = 'RetryAfterError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Thrown when another live runner holds the lock on a job's state
+ */
+export class JobLockedError extends Error {
+  readonly holder?: LockHolder;
+
+  constructor(message: string, holder?: LockHolder) {
+    super(message);
+    this.name = 'JobLockedError';
+    this.holder = holder;
+  }
+}
+
+/**
+ * Thrown when a saved state can't be used: it has an unsupported schema
+ * version, a migration is missing, or it fails validation
+ */
+export class InvalidStateError extends Error {
+  readonly schemaVersion?: number;
+
+  constructor(message: string, schemaVersion?: number) {
+    super(message);
+    this.name = 'InvalidStateError';
+    this.schemaVersion = schemaVersion;
+  }
+}
+
+/**
+ * Thrown when a process function call takes longer than `itemTimeoutMs`. It
+ * fails the attempt, so it is retried and reported like any other error.
+ */
+export class ItemTimeoutError extends Error {
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`Item timed out after ${timeoutMs}ms`);
+    this.name = 'ItemTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Thrown when a run stops because its failure budget is exhausted. The
+ * result carries the statistics and the saved state up to that point.
+ */
+export class FailureBudgetExceededError extends Error {
+  readonly reason: FailureBudgetReason;
+  readonly result: BatchResult;
+
+  constructor(message: string, reason: FailureBudgetReason, result: BatchResult) {
+    super(message);
+    this.name = 'FailureBudgetExceededError';
+    this.reason = reason;
+    this.result = result;
+  }
+}
+
+/**
+ * Thrown when a completed item can't be recorded in the completion ledger.
+ * The run stops, since the item would otherwise be processed again.
+ */
+export class LedgerWriteError extends Error {
+  readonly key: string;
+  readonly cause: unknown;
+
+  constructor(key: string, cause: unknown) {
+    super(`Could not record item ${key} as completed: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'LedgerWriteError';
+    this.key = key;
+    this.cause = cause;
+  }
+}
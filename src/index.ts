@@ -1,67 +1,240 @@
 // Export types
 export * from './types';
 
+// Export error classes
+export * from './errors';
+
 // Export batch processor functions
-export { processBatches, processPaginatedBatches } from './utils/batchProcessor';
+export { processBatches, processPaginatedBatches, replayFailed } from './utils/batchProcessor';
+
+// Export event-based job API
+export { BatchJob } from './utils/batchJob';
+
+// Export streaming variants
+export { batchStream, createBatchTransform, BatchTransform } from './utils/batchStream';
 
 // Export state manager
 export { StateManager } from './utils/stateManager';
 
+// Export state schema versioning
+export { StateSchema } from './utils/stateSchema';
+
+// Export other state stores
+export { MemoryStateStore } from './utils/memoryStateStore';
+export { SqliteStateStore } from './utils/sqliteStateStore';
+
 // Export state tracker
 export { StateTracker } from './utils/stateTracker';
 
+// Export dead-letter queue
+export { DeadLetterQueue, createDeadLetterEntry } from './utils/deadLetterQueue';
+
+// Export completion ledger
+export { CompletionLedger } from './utils/completionLedger';
+
+// Export rate limiter
+export { RateLimiter } from './utils/rateLimiter';
+
+// Export adaptive concurrency limiter
+export { AdaptiveConcurrency } from './utils/adaptiveConcurrency';
+
+// Export circuit breaker
+export { CircuitBreaker } from './utils/circuitBreaker';
+
+// Export retry helpers
+export { withRetry, computeBackoffDelay } from './utils/retry';
+
+// Export resume helpers
+export { ResumeCursor, computeInputFingerprint } from './utils/resumeCursor';
+
+// Export loggers
+export { silentLogger, createConsoleLogger } from './utils/logger';
+
 // Import required modules for the function below
 import { StateManager } from './utils/stateManager';
-import { processBatches } from './utils/batchProcessor';
-import { State, BatchOptions } from './types';
+import { DeadLetterQueue } from './utils/deadLetterQueue';
+import { CompletionLedger } from './utils/completionLedger';
+import { processBatches, replayFailed } from './utils/batchProcessor';
+import { followSignal } from './utils/abort';
+import { silentLogger } from './utils/logger';
+import { FailureBudgetExceededError } from './errors';
+import { BaseState, State, StateStore, BatchOptions, BatchInput, Logger } from './types';
 
 // Export a simple utility to create a state manager with options to automatically save state
-export function createBatchProcessorWithState<T, R>(
-  processFunction: (item: T, index: number, state: State) => Promise<R>,
-  stateFilePath: string,
+export function createBatchProcessorWithState<T, R, S extends BaseState = State>(
+  processFunction: (item: T, index: number, state: S, signal?: AbortSignal) => Promise<R>,
+  stateFilePathOrStore: string | StateStore<S>,
   options: {
     saveStateOnBatch?: boolean;
     saveStateOnItem?: boolean;
     saveStateInterval?: number;
+    maxCheckpoints?: number;
+    minWriteIntervalMs?: number;
+    lockStaleMs?: number;
+    deadLetter?: boolean;
+    deadLetterFilePath?: string;
+    ledger?: boolean;
+    ledgerFilePath?: string;
+    handleSignals?: boolean;
+    exitOnSignal?: boolean;
+    logger?: Logger;
   } = {}
 ) {
-  const { saveStateOnBatch = true, saveStateOnItem = false, saveStateInterval = 5 } = options;
-  const stateManager = new StateManager(stateFilePath);
+  const {
+    saveStateOnBatch = true,
+    saveStateOnItem = false,
+    saveStateInterval = 5,
+    maxCheckpoints,
+    minWriteIntervalMs,
+    lockStaleMs,
+    deadLetter = false,
+    deadLetterFilePath,
+    ledger = false,
+    ledgerFilePath,
+    handleSignals = false,
+    exitOnSignal = true,
+    logger = silentLogger
+  } = options;
+  const stateManager: StateStore<S> = typeof stateFilePathOrStore === 'string'
+    ? new StateManager<S>(stateFilePathOrStore, { maxCheckpoints, minWriteIntervalMs, lockStaleMs, logger })
+    : stateFilePathOrStore;
+  
+  // The dead-letter file sits next to the state file unless a path is given
+  let deadLetterQueue: DeadLetterQueue<T> | undefined;
+  if (deadLetter || deadLetterFilePath) {
+    if (!deadLetterFilePath && typeof stateFilePathOrStore !== 'string') {
+      throw new Error('deadLetterFilePath is required when using a custom state store');
+    }
+    deadLetterQueue = new DeadLetterQueue<T>(
+      deadLetterFilePath || DeadLetterQueue.pathForStateFile(stateFilePathOrStore as string),
+      { logger }
+    );
+  }
+  
+  // The ledger file also sits next to the state file unless a path is given
+  let completionLedger: CompletionLedger | undefined;
+  if (ledger || ledgerFilePath) {
+    if (!ledgerFilePath && typeof stateFilePathOrStore !== 'string') {
+      throw new Error('ledgerFilePath is required when using a custom state store');
+    }
+    completionLedger = new CompletionLedger(
+      ledgerFilePath || CompletionLedger.pathForStateFile(stateFilePathOrStore as string),
+      { logger }
+    );
+  }
   
   return {
     /**
      * Process items with automatic state management
      */
-    async process(items: T[], batchOptions: BatchOptions = {}) {
+    async process(items: BatchInput<T>, batchOptions: BatchOptions<T, R, S> = {}) {
+      // Hold the store's lock, if it has one, for the whole run
+      const lock = stateManager.lock ? await stateManager.lock() : undefined;
+      
       // Load initial state
-      const initialState = await stateManager.loadState();
+      let initialState: S;
+      try {
+        initialState = await stateManager.loadState();
+      } catch (error) {
+        await lock?.release();
+        throw error;
+      }
       
-      // Configure state update callbacks
-      const onStateUpdate = async (state: State, batchNumber?: number, totalBatches?: number) => {
-        if (saveStateOnBatch && batchNumber !== undefined && totalBatches !== undefined) {
+      // Once another runner has taken the lock over, the state file is theirs
+      const saveState = async (state: S) => {
+        if (!lock?.signal?.aborted) {
           await stateManager.saveState(state);
         }
+      };
+      
+      // Configure state update callbacks
+      const onStateUpdate = async (state: S, batchNumber?: number, totalBatches?: number) => {
+        if (saveStateOnBatch && batchNumber !== undefined) {
+          await saveState(state);
+        }
         if (batchOptions.onStateUpdate) {
           await batchOptions.onStateUpdate(state, batchNumber, totalBatches);
         }
       };
       
-      const onItemSuccess = async (item: T, result: R, totalProcessed: number, state: State) => {
+      const onItemSuccess = async (item: T, result: R, totalProcessed: number, state: S) => {
         if (saveStateOnItem && totalProcessed % saveStateInterval === 0) {
-          await stateManager.saveState(state);
+          await saveState(state);
         }
         if (batchOptions.onItemSuccess) {
           await batchOptions.onItemSuccess(item, result, totalProcessed, state);
         }
       };
       
-      // Process with automatic state management
-      return processBatches(items, processFunction, {
-        ...batchOptions,
-        initialState,
-        onStateUpdate,
-        onItemSuccess
-      });
+      // Abort on SIGINT/SIGTERM (and on the caller's signal) when requested,
+      // and when the lock is lost
+      const controller = new AbortController();
+      const unfollowSignal = followSignal(controller, batchOptions.signal);
+      const unfollowLock = followSignal(controller, lock?.signal);
+      
+      let receivedSignal: NodeJS.Signals | undefined;
+      const onSignal = (signal: NodeJS.Signals) => {
+        logger.warn(`Received ${signal}, stopping`, { event: 'run.signal', signal });
+        receivedSignal = signal;
+        controller.abort();
+      };
+      if (handleSignals) {
+        process.once('SIGINT', onSignal);
+        process.once('SIGTERM', onSignal);
+      }
+      
+      let result;
+      try {
+        // Process with automatic state management
+        result = await processBatches(items, processFunction, {
+          deadLetterQueue,
+          ledger: completionLedger,
+          logger,
+          ...batchOptions,
+          initialState,
+          onStateUpdate,
+          onItemSuccess,
+          signal: controller.signal
+        });
+        
+        if (lock?.signal?.aborted) {
+          throw lock.signal.reason;
+        }
+        
+        // Always write the final state of an interrupted run
+        if (result.aborted) {
+          await saveState(result.state);
+        }
+        await stateManager.flush?.();
+      } catch (error) {
+        // A run stopped by its failure budget still saves where it got to
+        if (error instanceof FailureBudgetExceededError) {
+          await saveState(error.result.state as S);
+          await stateManager.flush?.();
+        }
+        throw error;
+      } finally {
+        unfollowSignal();
+        unfollowLock();
+        process.removeListener('SIGINT', onSignal);
+        process.removeListener('SIGTERM', onSignal);
+        await lock?.release();
+      }
+      
+      if (receivedSignal && exitOnSignal) {
+        process.exit(receivedSignal === 'SIGINT' ? 130 : 143);
+      }
+      return result;
+    },
+    
+    /**
+     * Run the dead-lettered items through the process function again
+     */
+    async replayFailed(batchOptions: BatchOptions<T, R, S> = {}) {
+      if (!deadLetterQueue) {
+        throw new Error('Dead-letter queue is not enabled for this batch processor');
+      }
+      return replayFailed(processFunction, { ledger: completionLedger, logger, ...batchOptions, deadLetterQueue });
     },
     
     /**
@@ -79,8 +252,18 @@ export function createBatchProcessorWithState<T, R>(
     },
     
     /**
-     * Get the state manager instance
+     * Get the state store instance (a StateManager unless a custom store was given)
+     */
+    stateManager,
+    
+    /**
+     * Get the dead-letter queue instance (when enabled)
+     */
+    deadLetterQueue,
+    
+    /**
+     * Get the completion ledger instance (when enabled)
      */
-    stateManager
+    ledger: completionLedger
   };
 } 
\ No newline at end of file
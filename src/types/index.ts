@@ -1,4 +1,12 @@
-export interface State {
+import type { DeadLetterQueue } from '../utils/deadLetterQueue';
+import type { RateLimiter } from '../utils/rateLimiter';
+import type { AdaptiveConcurrency } from '../utils/adaptiveConcurrency';
+
+/**
+ * Fields the library reads and writes in the processing state. Extend this
+ * interface to type custom state fields.
+ */
+export interface BaseState {
   totalProcessed?: number;
   totalFailed?: number;
   lastUpdated?: string;
@@ -6,55 +14,374 @@ export interface State {
   startedAt?: string;
   currentPage?: number;
   totalPages?: number;
+  cursor?: PageCursor | null;
+  skippedPages?: PageFailure[];
+  lastPageError?: PageFailure;
+  nextItemIndex?: number;
+  completedItemKeys?: string[];
+  failedItemKeys?: string[];
+  inputFingerprint?: string;
+  totalRetries?: number;
+  concurrency?: number;
+  latencyMs?: LatencyPercentiles;
+  schemaVersion?: number;
+}
+
+/**
+ * Untyped processing state: the library fields plus any custom fields
+ */
+export interface State extends BaseState {
   [key: string]: any;
 }
 
-export interface BatchOptions {
+/**
+ * Structured logger. `fields` carries the event name (`event`) and its data,
+ * so the logger can be backed by console, pino, winston or a JSON sink.
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+export type LogFields = Record<string, unknown>;
+
+export type StateMigration = (state: State) => State | Promise<State>;
+
+/**
+ * Returns `false` or an error message to reject a state
+ */
+export type StateValidator = (state: State) => boolean | string | void | Promise<boolean | string | void>;
+
+export interface LockHolder {
+  pid: number;
+  hostname: string;
+  acquiredAt: string;
+  heartbeatAt: string;
+}
+
+/**
+ * A held state lock. Its `signal`, when the store provides one, aborts with a
+ * `JobLockedError` as its reason once another runner takes the lock over.
+ */
+export interface StateLock {
+  release(): Promise<void>;
+  signal?: AbortSignal;
+}
+
+/**
+ * Storage backend for processing state. `StateManager` is the file
+ * implementation; `MemoryStateStore` and `SqliteStateStore` are also provided.
+ */
+export interface StateStore<S extends BaseState = State> {
+  loadState(): Promise<S>;
+  saveState(state: S): Promise<void>;
+  clearState(): Promise<void>;
+  lock?(): Promise<StateLock>;
+  flush?(): Promise<void>;
+}
+
+/**
+ * Storage backend for the keys of completed items. `CompletionLedger` is the
+ * file implementation.
+ */
+export interface CompletionStore {
+  has(key: string): Promise<boolean>;
+  record(key: string): Promise<void>;
+}
+
+export interface CompletionLedgerEntry {
+  key: string;
+  completedAt: string;
+}
+
+export interface StateManagerOptions {
+  maxCheckpoints?: number;
+  minWriteIntervalMs?: number;
+  lockStaleMs?: number;
+  lockHeartbeatMs?: number;
+  schemaVersion?: number;
+  migrations?: Record<number, StateMigration>;
+  validate?: StateValidator;
+  logger?: Logger;
+}
+
+export interface CheckpointInfo {
+  id: string;
+  path: string;
+  savedAt: string;
+}
+
+export type BackoffStrategy = 'fixed' | 'exponential' | 'decorrelated-jitter';
+
+export interface RetryOptions {
+  maxAttempts?: number;
+  backoff?: BackoffStrategy;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  isRetryable?: (error: Error, attempt: number) => boolean;
+}
+
+export interface RateLimitOptions {
+  tokens: number;
+  intervalMs: number;
+  burst?: number;
+  getRetryAfterMs?: (error: unknown) => number | undefined;
+}
+
+/**
+ * Options for adaptive concurrency. The limit grows by `increaseBy` after
+ * every `sampleSize` healthy calls and is multiplied by `decreaseFactor` on
+ * overload errors or when the median latency exceeds `latencyTolerance` times
+ * the lowest median seen.
+ */
+export interface AdaptiveConcurrencyOptions {
+  min?: number;
+  max?: number;
+  initial?: number;
+  increaseBy?: number;
+  decreaseFactor?: number;
+  sampleSize?: number;
+  latencyTolerance?: number;
+  isOverloadError?: (error: Error) => boolean;
+  logger?: Logger;
+}
+
+/**
+ * Failure budget for a run. When `maxConsecutiveFailures` or `maxFailureRate`
+ * (a fraction of the last `windowSize` items) is exceeded, the run stops, or
+ * with `circuitBreaker` set, dispatch pauses for `coolDownMs` and then
+ * `probeItems` items are let through before the run resumes.
+ */
+export interface FailurePolicyOptions {
+  maxConsecutiveFailures?: number;
+  maxFailureRate?: number;
+  windowSize?: number;
+  circuitBreaker?: {
+    coolDownMs: number;
+    probeItems?: number;
+    maxOpenings?: number;
+  };
+}
+
+export type FailureBudgetReason = 'consecutiveFailures' | 'failureRate' | 'circuitOpenings';
+
+export interface LatencyPercentiles {
+  p50: number;
+  p90: number;
+  p99: number;
+}
+
+export interface DeadLetterEntry<T = any> {
+  key: string;
+  item: T;
+  error: {
+    name: string;
+    message: string;
+    stack?: string;
+  };
+  attempts: number;
+  batchNumber?: number;
+  page?: number;
+  failedAt: string;
+}
+
+/**
+ * Input accepted by processBatches. Node object streams (`Readable`) are
+ * async iterables and can be passed directly.
+ */
+export type BatchInput<T> = Iterable<T> | AsyncIterable<T>;
+
+export interface SettledItem<T = any, R = any> {
+  item: T;
+  index: number;
+  status: 'fulfilled' | 'rejected';
+  value?: R;
+  error?: Error;
+}
+
+export interface BatchOptions<T = any, R = any, S extends BaseState = State> {
   batchSize?: number;
   concurrencyLimit?: number;
-  onBatchStart?: (batchNumber: number, totalBatches: number, batch: any[], state: State) => Promise<void> | void;
+  onBatchStart?: (batchNumber: number, totalBatches: number | undefined, batch: T[], state: S) => Promise<void> | void;
   onBatchComplete?: (
     batchNumber: number, 
-    totalBatches: number, 
-    batch: any[], 
+    totalBatches: number | undefined, 
+    batch: T[], 
     totalProcessed: number, 
     totalFailed: number, 
-    state: State
+    state: S
   ) => Promise<void> | void;
-  onItemSuccess?: (item: any, result: any, totalProcessed: number, state: State) => Promise<void> | void;
-  onItemError?: (item: any, error: Error, totalFailed: number, state: State) => Promise<void> | void;
-  onStateUpdate?: (state: State, batchNumber?: number, totalBatches?: number) => Promise<void> | void;
+  onItemSuccess?: (item: T, result: R, totalProcessed: number, state: S) => Promise<void> | void;
+  onItemError?: (item: T, error: Error, totalFailed: number, state: S) => Promise<void> | void;
+  onItemRetry?: (item: T, error: Error, attempt: number, delayMs: number, state: S) => Promise<void> | void;
+  onItemSettled?: (settled: SettledItem<T, R>, state: S) => Promise<void> | void;
+  onStateUpdate?: (state: S, batchNumber?: number, totalBatches?: number) => Promise<void> | void;
   stateUpdateInterval?: number;
-  initialState?: State;
+  initialState?: S;
+  retry?: RetryOptions;
+  deadLetterQueue?: DeadLetterQueue<T>;
+  ledger?: CompletionStore;
+  signal?: AbortSignal;
+  abortTimeoutMs?: number;
+  itemTimeoutMs?: number;
+  deadline?: Date | number;
+  rateLimit?: RateLimitOptions | RateLimiter;
+  adaptiveConcurrency?: boolean | AdaptiveConcurrencyOptions | AdaptiveConcurrency;
+  failurePolicy?: FailurePolicyOptions;
+  waitUntilResumed?: () => Promise<void>;
+  collectResults?: boolean;
+  scheduling?: 'barrier' | 'sliding';
+  maxOpenBatches?: number;
+  getItemKey?: (item: T, index: number) => string;
+  dedupeBy?: (item: T) => string;
+  partitionBy?: (item: T) => string;
+  resume?: boolean;
+  verifyFingerprint?: boolean;
+  logger?: Logger;
+}
+
+export interface BatchStreamOptions<T = any, R = any, S extends BaseState = State> extends BatchOptions<T, R, S> {
+  ordered?: boolean;
+  highWaterMark?: number;
 }
 
-export interface BatchResult {
+export interface ReplayOptions<T = any, R = any, S extends BaseState = State> extends BatchOptions<T, R, S> {
+  deadLetterQueue: DeadLetterQueue<T>;
+}
+
+export interface BatchResult<T = any, R = any, S extends BaseState = State> {
   processed: number;
   failed: number;
-  state: State;
+  state: S;
+  aborted: boolean;
+  deadlineReached?: boolean;
+  settled?: SettledItem<T, R>[];
+}
+
+/**
+ * Opaque pagination cursor returned by an API. It is persisted in the state,
+ * so it must be JSON-serializable.
+ */
+export type PageCursor = string | number | Record<string, any>;
+
+/**
+ * What to do when a page still can't be fetched after its retries:
+ * - `abort`: save the state and reject the run
+ * - `skip`: record the page in `state.skippedPages` and continue with the next page
+ * - `retry-forever`: keep retrying (with backoff) until the fetch succeeds or the run is aborted
+ */
+export type PageErrorPolicy = 'abort' | 'skip' | 'retry-forever';
+
+export interface PageFailure {
+  page: number;
+  cursor?: PageCursor;
+  error: {
+    name: string;
+    message: string;
+  };
+  attempts: number;
+  failedAt: string;
 }
 
-export interface PageData {
-  items?: any[];
-  results?: any[];
+export interface PageData<T = any> {
+  items?: T[];
+  results?: T[];
   totalPages?: number;
+  nextCursor?: PageCursor | null;
+  nextToken?: PageCursor | null;
   [key: string]: any;
 }
 
-export interface PaginatedBatchOptions {
+/**
+ * Fetches a page by its number, with `pagination: 'page'`
+ */
+export type PageFetcher<T = any, S extends BaseState = State> = (
+  page: number,
+  state: S,
+  signal?: AbortSignal
+) => Promise<PageData<T>>;
+
+/**
+ * Fetches the page a cursor points to, with `pagination: 'cursor'`
+ */
+export type CursorPageFetcher<T = any, S extends BaseState = State> = (
+  cursor: PageCursor | undefined,
+  state: S,
+  signal?: AbortSignal
+) => Promise<PageData<T>>;
+
+export interface PaginatedBatchOptions<T = any, R = any, S extends BaseState = State> {
+  pagination?: 'page' | 'cursor';
   initialPage?: number;
+  initialCursor?: PageCursor;
+  prefetch?: number;
   concurrencyLimit?: number;
-  onPageStart?: (currentPage: number, totalPages: number, state: State) => Promise<void> | void;
+  onPageStart?: (currentPage: number, totalPages: number | undefined, state: S) => Promise<void> | void;
   onPageComplete?: (
     currentPage: number, 
-    totalPages: number, 
+    totalPages: number | undefined, 
     pageProcessed: number, 
     totalProcessed: number, 
-    state: State
+    state: S
   ) => Promise<void> | void;
-  onItemSuccess?: (item: any, result: any, totalProcessed: number, state: State) => Promise<void> | void;
-  onItemError?: (item: any, error: Error, totalFailed: number, state: State) => Promise<void> | void;
-  onStateUpdate?: (state: State) => Promise<void> | void;
+  onItemSuccess?: (item: T, result: R, totalProcessed: number, state: S) => Promise<void> | void;
+  onItemError?: (item: T, error: Error, totalFailed: number, state: S) => Promise<void> | void;
+  onItemRetry?: (item: T, error: Error, attempt: number, delayMs: number, state: S) => Promise<void> | void;
+  onPageRetry?: (currentPage: number, error: Error, attempt: number, delayMs: number, state: S) => Promise<void> | void;
+  onPageError?: (currentPage: number, error: Error, attempts: number, state: S) => Promise<void> | void;
+  onStateUpdate?: (state: S) => Promise<void> | void;
   stateUpdateInterval?: number;
-  initialState?: State;
-} 
\ No newline at end of file
+  initialState?: S;
+  retry?: RetryOptions;
+  pageRetry?: RetryOptions;
+  pageErrorPolicy?: PageErrorPolicy;
+  deadLetterQueue?: DeadLetterQueue<T>;
+  ledger?: CompletionStore;
+  signal?: AbortSignal;
+  abortTimeoutMs?: number;
+  itemTimeoutMs?: number;
+  deadline?: Date | number;
+  rateLimit?: RateLimitOptions | RateLimiter;
+  adaptiveConcurrency?: boolean | AdaptiveConcurrencyOptions | AdaptiveConcurrency;
+  failurePolicy?: FailurePolicyOptions;
+  waitUntilResumed?: () => Promise<void>;
+  getItemKey?: (item: T, index: number) => string;
+  dedupeBy?: (item: T) => string;
+  partitionBy?: (item: T) => string;
+  logger?: Logger;
+} 
+/**
+ * Events emitted by a `BatchJob`, with their listener arguments
+ */
+export interface BatchJobEvents<T = any, R = any, S extends BaseState = State> {
+  batchStart: [batchNumber: number, totalBatches: number | undefined, batch: T[], state: S];
+  batchComplete: [
+    batchNumber: number,
+    totalBatches: number | undefined,
+    batch: T[],
+    totalProcessed: number,
+    totalFailed: number,
+    state: S
+  ];
+  pageStart: [currentPage: number, totalPages: number | undefined, state: S];
+  pageComplete: [
+    currentPage: number,
+    totalPages: number | undefined,
+    pageProcessed: number,
+    totalProcessed: number,
+    state: S
+  ];
+  pageRetry: [currentPage: number, error: Error, attempt: number, delayMs: number, state: S];
+  pageError: [currentPage: number, error: Error, attempts: number, state: S];
+  itemSuccess: [item: T, result: R, totalProcessed: number, state: S];
+  itemError: [item: T, error: Error, totalFailed: number, state: S];
+  itemRetry: [item: T, error: Error, attempt: number, delayMs: number, state: S];
+  itemSettled: [settled: SettledItem<T, R>, state: S];
+  stateUpdate: [state: S, batchNumber?: number, totalBatches?: number];
+  pause: [];
+  resume: [];
+  done: [result: BatchResult<T, R, S>];
+  error: [error: unknown];
+}
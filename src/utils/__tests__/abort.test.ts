@@ -0,0 +1,112 @@
+import { runWithTimeout, withDeadline } from '../abort';
+import { processBatches, processPaginatedBatches } from '../batchProcessor';
+import { ItemTimeoutError } from '../../errors';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('runWithTimeout', () => {
+  it('rejects with an ItemTimeoutError and aborts the signal passed to the call', async () => {
+    let callSignal: AbortSignal | undefined;
+    await expect(runWithTimeout(async (signal) => {
+      callSignal = signal;
+      await sleep(100);
+    }, 20)).rejects.toBeInstanceOf(ItemTimeoutError);
+    expect(callSignal?.aborted).toBe(true);
+  });
+
+  it('resolves with the value of a call that settles in time', async () => {
+    await expect(runWithTimeout(async () => 'done', 50)).resolves.toBe('done');
+  });
+});
+
+describe('withDeadline', () => {
+  it('aborts once the deadline passes', async () => {
+    const deadline = withDeadline(undefined, new Date(Date.now() + 20));
+    expect(deadline.signal?.aborted).toBe(false);
+    await sleep(40);
+    expect(deadline.signal?.aborted).toBe(true);
+    expect(deadline.deadlineReached()).toBe(true);
+  });
+
+  it('aborts with the signal it follows without reaching the deadline', () => {
+    const controller = new AbortController();
+    const deadline = withDeadline(controller.signal, Date.now() + 60000);
+    controller.abort();
+    expect(deadline.signal?.aborted).toBe(true);
+    expect(deadline.deadlineReached()).toBe(false);
+    deadline.clear();
+  });
+});
+
+describe('itemTimeoutMs', () => {
+  it('fails a hung attempt so its batch can finish', async () => {
+    const errors: Error[] = [];
+    const start = Date.now();
+    const result = await processBatches([1, 2, 3], async (item) => {
+      if (item === 2) await new Promise(() => {});
+      return item;
+    }, {
+      itemTimeoutMs: 30,
+      onItemError: (item, error) => {
+        errors.push(error);
+      }
+    });
+
+    expect(Date.now() - start).toBeLessThan(500);
+    expect(result).toMatchObject({ processed: 2, failed: 1 });
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toBeInstanceOf(ItemTimeoutError);
+  });
+
+  it('retries a timed-out attempt like any other error', async () => {
+    let attempts = 0;
+    const result = await processBatches([1], async (item) => {
+      attempts++;
+      if (attempts === 1) await sleep(100);
+      return item;
+    }, { itemTimeoutMs: 30, retry: { maxAttempts: 2, backoff: 'fixed', baseDelayMs: 1 } });
+
+    expect(attempts).toBe(2);
+    expect(result).toMatchObject({ processed: 1, failed: 0 });
+  });
+});
+
+describe('deadline', () => {
+  it('stops the run at the deadline with the state to resume from', async () => {
+    const items = Array.from({ length: 50 }, (_, i) => i);
+    const savedStates: number[] = [];
+    const first = await processBatches(items, async () => {
+      await sleep(10);
+    }, {
+      batchSize: 5,
+      concurrencyLimit: 5,
+      deadline: Date.now() + 45,
+      onStateUpdate: (state) => {
+        savedStates.push(state.nextItemIndex as number);
+      }
+    });
+
+    expect(first).toMatchObject({ aborted: true, deadlineReached: true });
+    expect(first.processed).toBeGreaterThan(0);
+    expect(first.processed).toBeLessThan(50);
+    expect(savedStates[savedStates.length - 1]).toBe(first.state.nextItemIndex);
+
+    const seen: number[] = [];
+    const second = await processBatches(items, async (item) => {
+      seen.push(item);
+    }, { batchSize: 5, initialState: first.state });
+    expect(seen).toEqual(items.slice(first.state.nextItemIndex));
+    expect(second.deadlineReached).toBe(false);
+  });
+
+  it('stops a paginated run at the deadline', async () => {
+    const result = await processPaginatedBatches(async (page: number) => {
+      await sleep(20);
+      return { items: [page], totalPages: 100 };
+    }, async (item: number) => item, { deadline: new Date(Date.now() + 50) });
+
+    expect(result).toMatchObject({ aborted: true, deadlineReached: true });
+    expect(result.processed).toBeLessThan(100);
+    expect(result.state.currentPage).toBe(result.processed + 1);
+  });
+});
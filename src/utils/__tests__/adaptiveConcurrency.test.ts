@@ -0,0 +1,100 @@
+import { AdaptiveConcurrency } from '../adaptiveConcurrency';
+import { processBatches } from '../batchProcessor';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Run calls one after another through the limiter
+async function runSequentially(adaptive: AdaptiveConcurrency, calls: Array<() => Promise<unknown>>) {
+  for (const call of calls) {
+    await adaptive.run(call).catch(() => {});
+  }
+}
+
+describe('AdaptiveConcurrency', () => {
+  it('raises the limit by increaseBy after each sample of successful calls, up to max', async () => {
+    const adaptive = new AdaptiveConcurrency({ min: 1, max: 4, initial: 1, sampleSize: 5, increaseBy: 2 });
+    await runSequentially(adaptive, Array.from({ length: 5 }, () => async () => {}));
+    expect(adaptive.getLimit()).toBe(3);
+
+    await runSequentially(adaptive, Array.from({ length: 10 }, () => async () => {}));
+    expect(adaptive.getLimit()).toBe(4);
+  });
+
+  it('lowers the limit by decreaseFactor on an overload error, but not below min', async () => {
+    const adaptive = new AdaptiveConcurrency({ min: 2, max: 16, initial: 16, decreaseFactor: 0.5 });
+    const fail = async () => {
+      throw new Error('503');
+    };
+    await runSequentially(adaptive, [fail]);
+    expect(adaptive.getLimit()).toBe(8);
+
+    // Decreases at most once per round of in-flight calls
+    await runSequentially(adaptive, Array.from({ length: 7 }, () => fail));
+    expect(adaptive.getLimit()).toBe(8);
+    await runSequentially(adaptive, Array.from({ length: 30 }, () => fail));
+    expect(adaptive.getLimit()).toBe(2);
+  });
+
+  it('ignores errors that isOverloadError rejects', async () => {
+    const adaptive = new AdaptiveConcurrency({
+      initial: 8,
+      max: 8,
+      isOverloadError: (error) => error.message === '503'
+    });
+    await runSequentially(adaptive, [async () => {
+      throw new Error('404');
+    }]);
+    expect(adaptive.getLimit()).toBe(8);
+  });
+
+  it('lowers the limit when the median latency rises above latencyTolerance times the baseline', async () => {
+    const adaptive = new AdaptiveConcurrency({ initial: 4, max: 8, sampleSize: 3, latencyTolerance: 2 });
+    await runSequentially(adaptive, Array.from({ length: 3 }, () => () => sleep(5)));
+    expect(adaptive.getLimit()).toBe(5);
+
+    await runSequentially(adaptive, Array.from({ length: 3 }, () => () => sleep(40)));
+    expect(adaptive.getLimit()).toBe(2);
+    expect(adaptive.getLatencyPercentiles()?.p99).toBeGreaterThanOrEqual(35);
+  });
+
+  it('never runs more calls at once than the limit', async () => {
+    const adaptive = new AdaptiveConcurrency({ initial: 3, max: 3 });
+    let active = 0;
+    let maxActive = 0;
+    await Promise.all(Array.from({ length: 12 }, () => adaptive.run(async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await sleep(5);
+      active--;
+    })));
+    expect(maxActive).toBe(3);
+  });
+
+  it('rejects invalid bounds', () => {
+    expect(() => new AdaptiveConcurrency({ min: 5, max: 2 })).toThrow('1 <= min <= max');
+    expect(() => new AdaptiveConcurrency({ decreaseFactor: 1 })).toThrow('decreaseFactor');
+  });
+
+  it('saves the limit in the state and starts a resumed run from it', async () => {
+    const items = Array.from({ length: 20 }, (_, i) => i);
+    const first = await processBatches(items, async (item) => {
+      if (item === 0) throw new Error('overloaded');
+    }, { batchSize: 20, concurrencyLimit: 1, adaptiveConcurrency: { initial: 8, max: 8, sampleSize: 100 } });
+    expect(first.state.concurrency).toBe(4);
+    expect(first.state.latencyMs).toEqual(expect.objectContaining({ p50: expect.any(Number) }));
+
+    let active = 0;
+    let maxActive = 0;
+    await processBatches(items, async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await sleep(5);
+      active--;
+    }, {
+      concurrencyLimit: 8,
+      adaptiveConcurrency: { sampleSize: 100 },
+      initialState: { concurrency: 4 }
+    });
+    expect(maxActive).toBe(4);
+  });
+});
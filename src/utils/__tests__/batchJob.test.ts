@@ -0,0 +1,70 @@
+import { BatchJob } from '../batchJob';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('BatchJob', () => {
+  it('holds items back while paused without timing them out', async () => {
+    const started: number[] = [];
+    const job = new BatchJob([1, 2, 3, 4, 5, 6], async (item: number) => {
+      started.push(item);
+      await sleep(20);
+      return item;
+    }, { concurrencyLimit: 2, itemTimeoutMs: 100 });
+
+    job.start();
+    job.pause();
+    await sleep(300);
+    expect(started.length).toBeLessThanOrEqual(2);
+    job.resume();
+
+    const result = await job.result;
+    expect(result.processed).toBe(6);
+    expect(result.failed).toBe(0);
+  });
+
+  it('holds page fetches back while paused', async () => {
+    const fetched: number[] = [];
+    const job = BatchJob.paginated(async (page: number) => {
+      fetched.push(page);
+      return { items: [page], totalPages: 3 };
+    }, async (item: number) => item);
+
+    job.pause();
+    job.start();
+    await sleep(50);
+    expect(fetched).toEqual([]);
+    job.resume();
+
+    const result = await job.result;
+    expect(fetched).toEqual([1, 2, 3]);
+    expect(result.processed).toBe(3);
+  });
+
+  it('passes cursors to the fetch function with cursor pagination', async () => {
+    const cursors: unknown[] = [];
+    const job = BatchJob.paginated(async (cursor) => {
+      cursors.push(cursor);
+      return cursor === 'b' ? { items: [2], nextCursor: null } : { items: [1], nextCursor: 'b' };
+    }, async (item: number) => item, { pagination: 'cursor', initialCursor: 'a' });
+
+    const result = await job.start();
+    expect(cursors).toEqual(['a', 'b']);
+    expect(result.processed).toBe(2);
+  });
+
+  it('resolves a cancelled paused run as aborted without failing its items', async () => {
+    const job = new BatchJob([1, 2, 3], async (item: number) => item);
+    const errors: Error[] = [];
+    job.on('itemError', (item, error) => errors.push(error));
+
+    job.pause();
+    job.start();
+    await sleep(20);
+    job.cancel();
+
+    const result = await job.result;
+    expect(result.aborted).toBe(true);
+    expect(result.processed).toBe(0);
+    expect(errors).toEqual([]);
+  });
+});
@@ -0,0 +1,667 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { processBatches, processPaginatedBatches, replayFailed } from '../batchProcessor';
+import { DeadLetterQueue, createDeadLetterEntry } from '../deadLetterQueue';
+import { InputChangedError } from '../../errors';
+import { State } from '../../types';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('processBatches', () => {
+  describe('resume', () => {
+    const items = Array.from({ length: 20 }, (_, i) => i);
+
+    it('skips the items a previous run completed', async () => {
+      const controller = new AbortController();
+      const first = await processBatches(items, async (item) => {
+        if (item === 7) controller.abort();
+        return item;
+      }, { batchSize: 5, concurrencyLimit: 1, signal: controller.signal });
+      expect(first.aborted).toBe(true);
+      expect(first.state.nextItemIndex).toBe(8);
+
+      const seen: number[] = [];
+      const second = await processBatches(items, async (item) => {
+        seen.push(item);
+      }, { batchSize: 5, initialState: first.state });
+      expect(seen).toEqual(items.slice(8));
+      expect(second.state.totalProcessed).toBe(20);
+    });
+
+    it('records items that finished out of order by key', async () => {
+      const controller = new AbortController();
+      const first = await processBatches(items, async (item) => {
+        if (item === 2) {
+          await sleep(20);
+          controller.abort();
+          throw new Error('interrupted');
+        }
+        await sleep(item === 1 ? 50 : 0);
+      }, { batchSize: 5, concurrencyLimit: 5, signal: controller.signal, getItemKey: (item) => `item-${item}` });
+      expect(first.state.nextItemIndex).toBe(2);
+      expect(first.state.completedItemKeys).toEqual(expect.arrayContaining(['item-3', 'item-4']));
+
+      const seen: number[] = [];
+      await processBatches(items, async (item) => {
+        seen.push(item);
+      }, { batchSize: 5, initialState: first.state, getItemKey: (item) => `item-${item}` });
+      expect(seen).toEqual([2, ...items.slice(5)]);
+    });
+
+    it('rejects a resumed run with a different input list', async () => {
+      const first = await processBatches(items, async (item) => item);
+      await expect(processBatches(items.slice(1), async (item) => item, { initialState: first.state }))
+        .rejects.toBeInstanceOf(InputChangedError);
+    });
+
+    it('tries failed items again on resume when there is no dead-letter queue', async () => {
+      const first = await processBatches(items, async (item) => {
+        if (item === 3) throw new Error('down');
+      }, { batchSize: 5 });
+      expect(first.failed).toBe(1);
+      expect(first.state.nextItemIndex).toBe(20);
+      expect(first.state.failedItemKeys).toEqual(['3']);
+
+      const seen: number[] = [];
+      await processBatches(items, async (item) => {
+        seen.push(item);
+      }, { batchSize: 5, initialState: first.state });
+      expect(seen).toEqual([3]);
+    });
+
+    it('keeps the state small when an early item fails in a large input', async () => {
+      const largeInput = Array.from({ length: 30000 }, (_, i) => i);
+      const startedAt = Date.now();
+      const first = await processBatches(largeInput, async (item) => {
+        if (item === 0) throw new Error('down');
+      }, { batchSize: 500, concurrencyLimit: 50 });
+      expect(Date.now() - startedAt).toBeLessThan(5000);
+      expect(first.state.nextItemIndex).toBe(30000);
+      expect(first.state.completedItemKeys).toEqual([]);
+      expect(first.state.failedItemKeys).toEqual(['0']);
+
+      const seen: number[] = [];
+      const second = await processBatches(largeInput, async (item) => {
+        seen.push(item);
+      }, { batchSize: 500, concurrencyLimit: 50, initialState: first.state });
+      expect(seen).toEqual([0]);
+      expect(second.state.failedItemKeys).toEqual([]);
+    });
+
+    it('leaves failed items to the dead-letter queue when there is one', async () => {
+      const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'batcher-resume-'));
+      try {
+        const deadLetterQueue = new DeadLetterQueue<number>(path.join(directory, 'failed.jsonl'));
+        const first = await processBatches(items, async (item) => {
+          if (item === 3) throw new Error('down');
+        }, { batchSize: 5, deadLetterQueue });
+        expect(first.state.nextItemIndex).toBe(20);
+        expect(await deadLetterQueue.count()).toBe(1);
+      } finally {
+        fs.rmSync(directory, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('input', () => {
+    it('processes a sync iterable', async () => {
+      function* numbers() {
+        for (let i = 0; i < 7; i++) yield i;
+      }
+      const seen: Array<[number, number]> = [];
+      const result = await processBatches(numbers(), async (item, index) => {
+        seen.push([item, index]);
+      }, { batchSize: 3, concurrencyLimit: 1 });
+
+      expect(result.processed).toBe(7);
+      // The index passed to processFunction is the item's position in its batch
+      expect(seen).toEqual([[0, 0], [1, 1], [2, 2], [3, 0], [4, 1], [5, 2], [6, 0]]);
+      expect(result.state.nextItemIndex).toBe(7);
+    });
+
+    it('pulls an async iterable one batch at a time', async () => {
+      let pulled = 0;
+      async function* source() {
+        for (let i = 0; i < 20; i++) {
+          pulled++;
+          yield i;
+        }
+      }
+      const pulledWhileProcessing: number[] = [];
+      await processBatches(source(), async () => {
+        pulledWhileProcessing.push(pulled);
+      }, { batchSize: 5, concurrencyLimit: 5 });
+
+      expect(pulledWhileProcessing.slice(0, 5)).toEqual([5, 5, 5, 5, 5]);
+      expect(Math.max(...pulledWhileProcessing)).toBe(20);
+    });
+
+    it('reads a Node object stream and resumes it by position', async () => {
+      const makeStream = () => Readable.from(Array.from({ length: 10 }, (_, i) => ({ id: i })));
+      const controller = new AbortController();
+      const first = await processBatches(makeStream(), async (item) => {
+        if (item.id === 5) controller.abort();
+      }, { batchSize: 3, concurrencyLimit: 1, signal: controller.signal });
+      expect(first.aborted).toBe(true);
+      // Streams can't be fingerprinted up front
+      expect(first.state.inputFingerprint).toBeUndefined();
+
+      const seen: number[] = [];
+      await processBatches(makeStream(), async (item) => {
+        seen.push(item.id);
+      }, { batchSize: 3, initialState: first.state });
+      expect(seen).toEqual([6, 7, 8, 9]);
+    });
+  });
+
+  describe('collectResults', () => {
+    it('returns every outcome in input order, whatever order items finish in', async () => {
+      const items = [40, 0, 25, 5, 30, 10, 0];
+      const finished: number[] = [];
+      const result = await processBatches(items, async (delayMs, index) => {
+        await sleep(delayMs);
+        finished.push(index);
+        if (delayMs === 25) throw new Error('slow item failed');
+        return delayMs * 2;
+      }, { batchSize: 4, concurrencyLimit: 4, collectResults: true });
+
+      expect(finished).not.toEqual([...finished].sort((a, b) => a - b));
+      expect(result.settled?.map(settled => settled.index)).toEqual([0, 1, 2, 3, 4, 5, 6]);
+      expect(result.settled?.map(settled => settled.status)).toEqual([
+        'fulfilled', 'fulfilled', 'rejected', 'fulfilled', 'fulfilled', 'fulfilled', 'fulfilled'
+      ]);
+      expect(result.settled?.[0]).toEqual({ item: 40, index: 0, status: 'fulfilled', value: 80 });
+      expect(result.settled?.[2].error?.message).toBe('slow item failed');
+    });
+
+    it('leaves out items completed by a previous run', async () => {
+      const items = [1, 2, 3, 4];
+      const controller = new AbortController();
+      const first = await processBatches(items, async (item) => {
+        if (item === 2) controller.abort();
+        return item;
+      }, { batchSize: 2, concurrencyLimit: 1, signal: controller.signal });
+
+      const second = await processBatches(items, async (item) => item * 10, {
+        batchSize: 2,
+        initialState: first.state,
+        collectResults: true
+      });
+      expect(second.settled?.map(settled => [settled.index, settled.value])).toEqual([[2, 30], [3, 40]]);
+    });
+
+    it('is left out of the result unless requested', async () => {
+      const result = await processBatches([1, 2], async (item) => item);
+      expect(result.settled).toBeUndefined();
+    });
+  });
+
+  describe('retry', () => {
+    it('counts retries separately from failures', async () => {
+      const attempts = new Map<number, number>();
+      const retried: number[] = [];
+      const failed: number[] = [];
+      const result = await processBatches([1, 2, 3], async (item) => {
+        const attempt = (attempts.get(item) || 0) + 1;
+        attempts.set(item, attempt);
+        // Item 1 succeeds on its second attempt, item 2 never does
+        if (item === 2 || (item === 1 && attempt === 1)) throw new Error('flaky');
+        return item;
+      }, {
+        retry: { maxAttempts: 3, backoff: 'fixed', baseDelayMs: 1 },
+        onItemRetry: (item) => {
+          retried.push(item);
+        },
+        onItemError: (item) => {
+          failed.push(item);
+        }
+      });
+
+      expect(result.processed).toBe(2);
+      expect(result.failed).toBe(1);
+      expect(result.state.totalRetries).toBe(3);
+      expect(retried).toEqual([1, 2, 2]);
+      expect(failed).toEqual([2]);
+    });
+  });
+
+  describe('partitionBy', () => {
+    const items = Array.from({ length: 40 }, (_, i) => ({ id: i, account: `account-${i % 4}` }));
+
+    it.each(['barrier', 'sliding'] as const)(
+      'runs items of a partition one at a time in input order with %s scheduling',
+      async (scheduling) => {
+        const running = new Set<string>();
+        const order = new Map<string, number[]>();
+        let overlapped = false;
+        let active = 0;
+        let maxActive = 0;
+
+        const result = await processBatches(items, async (item) => {
+          if (running.has(item.account)) overlapped = true;
+          running.add(item.account);
+          active++;
+          maxActive = Math.max(maxActive, active);
+          await sleep(item.id % 3 === 0 ? 15 : 2);
+          order.set(item.account, [...(order.get(item.account) || []), item.id]);
+          running.delete(item.account);
+          active--;
+        }, { batchSize: 7, concurrencyLimit: 3, scheduling, partitionBy: item => item.account });
+
+        expect(result.processed).toBe(40);
+        expect(overlapped).toBe(false);
+        expect(maxActive).toBeLessThanOrEqual(3);
+        expect(maxActive).toBeGreaterThan(1);
+        order.forEach((ids, account) => {
+          expect(ids).toEqual(items.filter(item => item.account === account).map(item => item.id));
+        });
+      }
+    );
+
+    it('counts items waiting for their partition when reading ahead with sliding scheduling', async () => {
+      let pulled = 0;
+      async function* source() {
+        for (let id = 0; id < 2000; id++) {
+          pulled++;
+          yield { id, account: 'hot' };
+        }
+      }
+
+      const controller = new AbortController();
+      const run = processBatches(source(), async () => {
+        await sleep(10);
+      }, { batchSize: 5, concurrencyLimit: 3, scheduling: 'sliding', partitionBy: item => item.account, signal: controller.signal });
+
+      // About 10 items run in this time; the reader stays a pool's worth ahead of them
+      await sleep(100);
+      const pulledWhileRunning = pulled;
+      controller.abort();
+      await run;
+      expect(pulledWhileRunning).toBeLessThanOrEqual(20);
+    });
+
+    it('skips repeated keys with dedupeBy', async () => {
+      const seen: string[] = [];
+      const result = await processBatches(['a', 'b', 'a', 'c', 'b'], async (item) => {
+        seen.push(item);
+      }, { batchSize: 2, dedupeBy: item => item });
+      expect(seen).toEqual(['a', 'b', 'c']);
+      expect(result.processed).toBe(3);
+    });
+  });
+
+  describe('scheduling', () => {
+    // One slow item among many fast ones
+    const items = Array.from({ length: 100 }, (_, i) => i);
+    const processItem = (item: number) => sleep(item === 2 ? 500 : 10);
+
+    async function timeRun(scheduling: 'barrier' | 'sliding') {
+      let active = 0;
+      let maxActive = 0;
+      const start = Date.now();
+      const result = await processBatches(
+        items,
+        async (item) => {
+          active++;
+          maxActive = Math.max(maxActive, active);
+          await processItem(item);
+          active--;
+        },
+        { batchSize: 5, concurrencyLimit: 5, scheduling }
+      );
+      return { elapsed: Date.now() - start, maxActive, result };
+    }
+
+    it('stalls every later batch behind a slow item with barrier scheduling', async () => {
+      const { elapsed, maxActive, result } = await timeRun('barrier');
+      expect(result.processed).toBe(100);
+      expect(maxActive).toBeLessThanOrEqual(5);
+      expect(elapsed).toBeGreaterThanOrEqual(680);
+    });
+
+    it('keeps the pool busy around a slow item with sliding scheduling', async () => {
+      const { elapsed, maxActive, result } = await timeRun('sliding');
+      expect(result.processed).toBe(100);
+      expect(maxActive).toBe(5);
+      expect(elapsed).toBeLessThan(650);
+    });
+
+    it('completes batches in order with sliding scheduling', async () => {
+      const completed: number[] = [];
+      const cursors: number[] = [];
+      await processBatches(items, async (item) => processItem(item), {
+        batchSize: 5,
+        concurrencyLimit: 5,
+        scheduling: 'sliding',
+        onStateUpdate: (state) => {
+          cursors.push(state.nextItemIndex as number);
+        },
+        onBatchComplete: (batchNumber) => {
+          completed.push(batchNumber);
+        }
+      });
+      expect(completed).toEqual(Array.from({ length: 20 }, (_, i) => i + 1));
+      // Items finish out of order, but the saved cursor only moves forward
+      expect(cursors).toEqual([...cursors].sort((a, b) => a - b));
+    });
+
+    it('stops reading once maxOpenBatches batches wait on an earlier one', async () => {
+      let started = 0;
+      let release = () => {};
+      const released = new Promise<void>(resolve => {
+        release = resolve;
+      });
+      const run = processBatches(Array.from({ length: 1000 }, (_, i) => i), async () => {
+        started++;
+      }, {
+        batchSize: 5,
+        concurrencyLimit: 5,
+        scheduling: 'sliding',
+        maxOpenBatches: 4,
+        onBatchComplete: async (batchNumber) => {
+          if (batchNumber === 1) await released;
+        }
+      });
+
+      await sleep(100);
+      expect(started).toBeLessThanOrEqual(20);
+      release();
+      expect((await run).processed).toBe(1000);
+    });
+
+    it('does not leave a later batch failure unhandled while an earlier batch runs', async () => {
+      const unhandled: unknown[] = [];
+      const onUnhandled = (reason: unknown) => unhandled.push(reason);
+      process.on('unhandledRejection', onUnhandled);
+      try {
+        const run = processBatches(items, async (item) => {
+          await sleep(item === 0 ? 100 : 0);
+          if (item === 7) throw new Error('down');
+        }, {
+          batchSize: 5,
+          concurrencyLimit: 5,
+          scheduling: 'sliding',
+          onItemError: () => {
+            throw new Error('callback failed');
+          }
+        });
+        await expect(run).rejects.toThrow('callback failed');
+        await sleep(10);
+        expect(unhandled).toEqual([]);
+      } finally {
+        process.off('unhandledRejection', onUnhandled);
+      }
+    });
+  });
+
+  describe('replayFailed', () => {
+    let directory: string;
+    let deadLetterQueue: DeadLetterQueue<number>;
+
+    beforeEach(async () => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'batcher-dlq-'));
+      deadLetterQueue = new DeadLetterQueue<number>(path.join(directory, 'failed.jsonl'));
+      await deadLetterQueue.replaceAll(
+        [1, 2, 3, 4].map(item => createDeadLetterEntry(item, String(item), new Error('down'), 1))
+      );
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('removes items that succeeded and updates the ones that failed again', async () => {
+      const result = await replayFailed(async (item: number) => {
+        if (item === 3) throw new Error('still down');
+        return item;
+      }, { deadLetterQueue });
+
+      expect(result.processed).toBe(3);
+      const entries = await deadLetterQueue.getAll();
+      expect(entries.map(entry => entry.item)).toEqual([3]);
+      expect(entries[0]).toMatchObject({ attempts: 2, error: { message: 'still down' } });
+    });
+
+    it('removes items that succeeded even when the replay rejects', async () => {
+      await expect(replayFailed(async (item: number) => item, {
+        deadLetterQueue,
+        batchSize: 2,
+        onBatchComplete: (batchNumber) => {
+          if (batchNumber === 2) throw new Error('callback failed');
+        }
+      })).rejects.toThrow('callback failed');
+
+      expect(await deadLetterQueue.count()).toBe(0);
+    });
+  });
+});
+
+describe('processPaginatedBatches', () => {
+  describe('cursor pagination', () => {
+    // Three pages chained by cursors, the last one without a next cursor
+    const pages: Record<string, { items: string[]; nextCursor: string | null }> = {
+      a: { items: ['a1', 'a2'], nextCursor: 'b' },
+      b: { items: ['b1', 'b2'], nextCursor: 'c' },
+      c: { items: ['c1'], nextCursor: null }
+    };
+
+    it('follows nextCursor from initialCursor until it is null', async () => {
+      const cursors: unknown[] = [];
+      const seen: string[] = [];
+      const result = await processPaginatedBatches(async (cursor) => {
+        cursors.push(cursor);
+        return pages[cursor as string];
+      }, async (item: string) => {
+        seen.push(item);
+      }, { pagination: 'cursor', initialCursor: 'a', concurrencyLimit: 1 });
+
+      expect(cursors).toEqual(['a', 'b', 'c']);
+      expect(seen).toEqual(['a1', 'a2', 'b1', 'b2', 'c1']);
+      expect(result.state).toMatchObject({ cursor: null, currentPage: 4 });
+    });
+
+    it('passes undefined for the first page and accepts nextToken', async () => {
+      const cursors: unknown[] = [];
+      const result = await processPaginatedBatches(async (cursor) => {
+        cursors.push(cursor);
+        return cursor === undefined ? { items: [1], nextToken: 'next' } : { items: [2] };
+      }, async (item: number) => item, { pagination: 'cursor' });
+
+      expect(cursors).toEqual([undefined, 'next']);
+      expect(result.processed).toBe(2);
+    });
+
+    it('resumes from the cursor of the page that was interrupted', async () => {
+      const controller = new AbortController();
+      const first = await processPaginatedBatches(async (cursor) => pages[cursor as string], async (item: string) => {
+        if (item === 'b1') controller.abort();
+      }, { pagination: 'cursor', initialCursor: 'a', concurrencyLimit: 1, signal: controller.signal });
+      expect(first.aborted).toBe(true);
+      expect(first.state).toMatchObject({ cursor: 'b', currentPage: 2 });
+
+      const cursors: unknown[] = [];
+      const seen: string[] = [];
+      await processPaginatedBatches(async (cursor) => {
+        cursors.push(cursor);
+        return pages[cursor as string];
+      }, async (item: string) => {
+        seen.push(item);
+      }, { pagination: 'cursor', initialCursor: 'a', initialState: first.state });
+      expect(cursors).toEqual(['b', 'c']);
+      expect(seen).toEqual(['b1', 'b2', 'c1']);
+    });
+
+    it('does not fetch again when a finished run is resumed', async () => {
+      const fetch = jest.fn(async (cursor: unknown) => pages[cursor as string]);
+      const first = await processPaginatedBatches(fetch, async (item: string) => item, {
+        pagination: 'cursor',
+        initialCursor: 'a'
+      });
+      fetch.mockClear();
+
+      const second = await processPaginatedBatches(fetch, async (item: string) => item, {
+        pagination: 'cursor',
+        initialCursor: 'a',
+        initialState: first.state
+      });
+      expect(fetch).not.toHaveBeenCalled();
+      expect(second.processed).toBe(5);
+    });
+  });
+
+  describe('prefetch', () => {
+    const fetchPage = (fetched: number[]) => async (page: number) => {
+      fetched.push(page);
+      return { items: [page * 10, page * 10 + 1], totalPages: 5 };
+    };
+
+    it('fetches upcoming pages while a page is processed', async () => {
+      const fetched: number[] = [];
+      const fetchedDuringPage1: number[] = [];
+      await processPaginatedBatches(fetchPage(fetched), async (item: number) => {
+        await sleep(20);
+        if (item === 11) fetchedDuringPage1.push(...fetched);
+      }, { prefetch: 2, concurrencyLimit: 1 });
+
+      expect(fetchedDuringPage1).toEqual([1, 2, 3]);
+      expect(fetched).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('fetches one page at a time without prefetch', async () => {
+      const fetched: number[] = [];
+      const fetchedDuringPage1: number[] = [];
+      await processPaginatedBatches(fetchPage(fetched), async (item: number) => {
+        await sleep(5);
+        if (item === 11) fetchedDuringPage1.push(...fetched);
+      }, { concurrencyLimit: 1 });
+      expect(fetchedDuringPage1).toEqual([1]);
+    });
+
+    it('keeps the checkpoint on the page being processed, not the pages fetched ahead', async () => {
+      const fetched: number[] = [];
+      const checkpoints: number[] = [];
+      const controller = new AbortController();
+      const first = await processPaginatedBatches(fetchPage(fetched), async (item: number) => {
+        await sleep(10);
+        if (item === 21) controller.abort();
+      }, {
+        prefetch: 3,
+        concurrencyLimit: 1,
+        signal: controller.signal,
+        onStateUpdate: (state) => {
+          checkpoints.push(state.currentPage as number);
+        }
+      });
+
+      expect(Math.max(...fetched)).toBeGreaterThan(2);
+      expect(Math.max(...checkpoints)).toBe(2);
+      expect(first.state.currentPage).toBe(2);
+
+      const resumedFetches: number[] = [];
+      await processPaginatedBatches(fetchPage(resumedFetches), async (item: number) => item, {
+        prefetch: 3,
+        initialState: first.state
+      });
+      expect(resumedFetches).toEqual([2, 3, 4, 5]);
+    });
+  });
+
+  describe('page errors', () => {
+    // Page 2 fails a given number of times before it can be fetched
+    const flakyPages = (failures: number) => {
+      let failed = 0;
+      const fetched: number[] = [];
+      const fetch = async (page: number) => {
+        fetched.push(page);
+        if (page === 2 && failed < failures) {
+          failed++;
+          throw new Error(`page ${page} unavailable`);
+        }
+        return { items: [page], totalPages: 3 };
+      };
+      return { fetch, fetched };
+    };
+
+    it('saves the state and rejects after the page retries run out by default', async () => {
+      const { fetch, fetched } = flakyPages(Infinity);
+      const retries: number[] = [];
+      let savedState: State = {};
+      await expect(processPaginatedBatches(fetch, async (item: number) => item, {
+        pageRetry: { maxAttempts: 3, backoff: 'fixed', baseDelayMs: 1 },
+        onPageRetry: (page, error, attempt) => {
+          retries.push(attempt);
+        },
+        onStateUpdate: (state) => {
+          savedState = state;
+        }
+      })).rejects.toThrow('page 2 unavailable');
+
+      expect(fetched).toEqual([1, 2, 2, 2]);
+      expect(retries).toEqual([1, 2]);
+      expect(savedState).toMatchObject({ currentPage: 2, totalProcessed: 1, lastPageError: { page: 2, attempts: 3 } });
+
+      // The resumed run starts with the page that failed
+      const resumed = flakyPages(0);
+      const result = await processPaginatedBatches(resumed.fetch, async (item: number) => item, { initialState: savedState });
+      expect(resumed.fetched).toEqual([2, 3]);
+      expect(result.state.lastPageError).toBeUndefined();
+      expect(result.state.totalProcessed).toBe(3);
+    });
+
+    it('records the page and moves on with skip', async () => {
+      const { fetch } = flakyPages(Infinity);
+      const errors: number[] = [];
+      const seen: number[] = [];
+      const result = await processPaginatedBatches(fetch, async (item: number) => {
+        seen.push(item);
+      }, {
+        pageErrorPolicy: 'skip',
+        onPageError: (page) => {
+          errors.push(page);
+        }
+      });
+
+      expect(seen).toEqual([1, 3]);
+      expect(errors).toEqual([2]);
+      expect(result.state.skippedPages).toEqual([
+        expect.objectContaining({ page: 2, attempts: 1, error: { name: 'Error', message: 'page 2 unavailable' } })
+      ]);
+    });
+
+    it('rejects with skip in cursor mode, where a page cannot be skipped', async () => {
+      await expect(processPaginatedBatches(async (cursor) => {
+        if (cursor === 'b') throw new Error('cursor b unavailable');
+        return { items: [1], nextCursor: 'b' };
+      }, async (item: number) => item, { pagination: 'cursor', pageErrorPolicy: 'skip' }))
+        .rejects.toThrow('cursor b unavailable');
+    });
+
+    it('keeps retrying with retry-forever until the page can be fetched', async () => {
+      const { fetch, fetched } = flakyPages(5);
+      const result = await processPaginatedBatches(fetch, async (item: number) => item, {
+        pageErrorPolicy: 'retry-forever',
+        pageRetry: { backoff: 'fixed', baseDelayMs: 1 }
+      });
+
+      expect(fetched).toEqual([1, 2, 2, 2, 2, 2, 2, 3]);
+      expect(result.processed).toBe(3);
+    });
+
+    it('stops retrying with retry-forever once aborted', async () => {
+      const { fetch } = flakyPages(Infinity);
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 50);
+      const result = await processPaginatedBatches(fetch, async (item: number) => item, {
+        pageErrorPolicy: 'retry-forever',
+        pageRetry: { backoff: 'fixed', baseDelayMs: 5 },
+        signal: controller.signal
+      });
+
+      expect(result.aborted).toBe(true);
+      expect(result.processed).toBe(1);
+      expect(result.state.currentPage).toBe(2);
+    });
+  });
+});
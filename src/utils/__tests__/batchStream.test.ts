@@ -0,0 +1,117 @@
+import { Readable, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { batchStream, BatchTransform } from '../batchStream';
+import { SettledItem } from '../../types';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Later items finish first
+const processReversed = async (item: number) => {
+  await sleep((5 - (item % 5)) * 5);
+  return item * 2;
+};
+
+describe('batchStream', () => {
+  it('yields outcomes in input order when ordered', async () => {
+    const indexes: number[] = [];
+    const stream = batchStream(Array.from({ length: 10 }, (_, i) => i), processReversed, { batchSize: 5 });
+    for await (const settled of stream) {
+      indexes.push(settled.index);
+      expect(settled.value).toBe(settled.item * 2);
+    }
+    expect(indexes).toEqual(Array.from({ length: 10 }, (_, i) => i));
+  });
+
+  it('yields outcomes as they settle when unordered', async () => {
+    const indexes: number[] = [];
+    for await (const settled of batchStream([0, 1, 2, 3, 4], processReversed, { batchSize: 5, ordered: false })) {
+      indexes.push(settled.index);
+    }
+    expect(indexes).toEqual([4, 3, 2, 1, 0]);
+  });
+
+  it('returns the run statistics when done', async () => {
+    const stream = batchStream([1, 2, 3], async (item) => {
+      if (item === 2) throw new Error('down');
+      return item;
+    });
+    let next = await stream.next();
+    const statuses: string[] = [];
+    while (!next.done) {
+      statuses.push(next.value.status);
+      next = await stream.next();
+    }
+    expect(statuses).toEqual(['fulfilled', 'rejected', 'fulfilled']);
+    expect(next.value).toMatchObject({ processed: 2, failed: 1, aborted: false });
+  });
+
+  it.each([
+    ['ordered', 'barrier', true],
+    ['ordered', 'sliding', true],
+    ['unordered', 'sliding', false]
+  ] as const)('stops processing while the consumer is not reading (%s, %s)', async (_, scheduling, ordered) => {
+    let processed = 0;
+    const stream = batchStream(Array.from({ length: 3000 }, (_, i) => i), async (item) => {
+      processed++;
+      return item;
+    }, { batchSize: 10, concurrencyLimit: 5, highWaterMark: 10, scheduling, ordered, maxOpenBatches: 4 });
+
+    await stream.next();
+    await sleep(100);
+    expect(processed).toBeLessThanOrEqual(100);
+    await stream.return(undefined);
+  });
+
+  it('aborts the run when the consumer stops early', async () => {
+    let processed = 0;
+    const stream = batchStream(Array.from({ length: 100 }, (_, i) => i), async (item) => {
+      processed++;
+      await sleep(1);
+      return item;
+    }, { batchSize: 5, concurrencyLimit: 5 });
+
+    for await (const settled of stream) {
+      if (settled.index === 2) break;
+    }
+    const processedWhenStopped = processed;
+    await sleep(50);
+    expect(processed).toBe(processedWhenStopped);
+    expect(processed).toBeLessThan(100);
+  });
+});
+
+describe('BatchTransform', () => {
+  it('processes written items and emits their outcomes in order', async () => {
+    const outcomes: SettledItem<number, number>[] = [];
+    await pipeline(
+      Readable.from(Array.from({ length: 12 }, (_, i) => i)),
+      new BatchTransform(processReversed, { batchSize: 5 }),
+      new Writable({
+        objectMode: true,
+        write(settled: SettledItem<number, number>, _encoding, callback) {
+          outcomes.push(settled);
+          callback();
+        }
+      })
+    );
+
+    expect(outcomes.map(settled => settled.index)).toEqual(Array.from({ length: 12 }, (_, i) => i));
+    expect(outcomes.map(settled => settled.value)).toEqual(Array.from({ length: 12 }, (_, i) => i * 2));
+  });
+
+  it('emits outcomes as they settle when unordered', async () => {
+    const indexes: number[] = [];
+    await pipeline(
+      Readable.from([0, 1, 2, 3, 4]),
+      new BatchTransform(processReversed, { batchSize: 5, ordered: false }),
+      new Writable({
+        objectMode: true,
+        write(settled: SettledItem<number, number>, _encoding, callback) {
+          indexes.push(settled.index);
+          callback();
+        }
+      })
+    );
+    expect(indexes).toEqual([4, 3, 2, 1, 0]);
+  });
+});
@@ -0,0 +1,119 @@
+import { CircuitBreaker } from '../circuitBreaker';
+import { processBatches } from '../batchProcessor';
+import { FailureBudgetExceededError } from '../../errors';
+import { Logger } from '../../types';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Logger that keeps the event of every call
+function createEventLogger() {
+  const events: unknown[] = [];
+  const record = (message: string, fields?: Record<string, unknown>) => {
+    events.push(fields?.event);
+  };
+  const logger: Logger = { debug: record, info: record, warn: record, error: record };
+  return { logger, events };
+}
+
+describe('failure budget', () => {
+  it('stops the run after maxConsecutiveFailures and keeps the state to resume from', async () => {
+    const items = Array.from({ length: 20 }, (_, i) => i);
+    const started: number[] = [];
+    const error: FailureBudgetExceededError = await processBatches(items, async (item) => {
+      started.push(item);
+      if (item >= 3) throw new Error('down');
+    }, { batchSize: 5, concurrencyLimit: 1, failurePolicy: { maxConsecutiveFailures: 3 } }).catch(e => e);
+
+    expect(error).toBeInstanceOf(FailureBudgetExceededError);
+    expect(error.reason).toBe('consecutiveFailures');
+    expect(started).toEqual([0, 1, 2, 3, 4, 5]);
+    expect(error.result).toMatchObject({ processed: 3, failed: 3, aborted: true });
+    expect(error.result.state.nextItemIndex).toBe(6);
+  });
+
+  it('resets the consecutive count on a success', async () => {
+    const result = await processBatches(Array.from({ length: 10 }, (_, i) => i), async (item) => {
+      if (item % 3 !== 0) throw new Error('down');
+    }, { concurrencyLimit: 1, failurePolicy: { maxConsecutiveFailures: 3 } });
+    expect(result).toMatchObject({ processed: 4, failed: 6, aborted: false });
+  });
+
+  it('stops the run when the failure rate over the window exceeds maxFailureRate', async () => {
+    const error: FailureBudgetExceededError = await processBatches(Array.from({ length: 40 }, (_, i) => i), async (item) => {
+      if (item % 2 === 0) throw new Error('down');
+    }, { concurrencyLimit: 1, failurePolicy: { maxFailureRate: 0.4, windowSize: 10 } }).catch(e => e);
+
+    expect(error).toBeInstanceOf(FailureBudgetExceededError);
+    expect(error.reason).toBe('failureRate');
+    expect(error.result.processed + error.result.failed).toBe(10);
+  });
+
+  it('rejects a failure rate outside 0 to 1', () => {
+    expect(() => new CircuitBreaker({ maxFailureRate: 2 })).toThrow('maxFailureRate');
+  });
+});
+
+describe('circuit breaker', () => {
+  it('holds items back while open, then closes once the probe items succeed', async () => {
+    const { logger, events } = createEventLogger();
+    let downUntil = 0;
+    const startedAt: number[] = [];
+    const start = Date.now();
+    const result = await processBatches(Array.from({ length: 10 }, (_, i) => i), async (item) => {
+      startedAt.push(Date.now() - start);
+      if (item === 0) downUntil = Date.now() + 30;
+      if (Date.now() < downUntil) throw new Error('down');
+    }, {
+      concurrencyLimit: 1,
+      logger,
+      failurePolicy: { maxConsecutiveFailures: 2, circuitBreaker: { coolDownMs: 60, probeItems: 2 } }
+    });
+
+    expect(result.aborted).toBe(false);
+    expect(result.failed).toBe(2);
+    expect(result.processed).toBe(8);
+    // The third item waited for the cool-down
+    expect(startedAt[2]).toBeGreaterThanOrEqual(55);
+    expect(events.filter(event => String(event).startsWith('circuit.'))).toEqual([
+      'circuit.open',
+      'circuit.halfOpen',
+      'circuit.close'
+    ]);
+  });
+
+  it('opens again when a probe item fails, and stops the run after maxOpenings', async () => {
+    const { logger, events } = createEventLogger();
+    const error: FailureBudgetExceededError = await processBatches(Array.from({ length: 10 }, (_, i) => i), async () => {
+      throw new Error('down');
+    }, {
+      concurrencyLimit: 1,
+      logger,
+      failurePolicy: { maxConsecutiveFailures: 2, circuitBreaker: { coolDownMs: 10, maxOpenings: 2 } }
+    }).catch(e => e);
+
+    expect(error).toBeInstanceOf(FailureBudgetExceededError);
+    expect(error.reason).toBe('circuitOpenings');
+    // Two items open the circuit, then each failed probe opens it again
+    expect(error.result.failed).toBe(4);
+    expect(events.filter(event => String(event).startsWith('circuit.') || event === 'run.failureBudget')).toEqual([
+      'circuit.open',
+      'circuit.halfOpen',
+      'circuit.open',
+      'circuit.halfOpen',
+      'run.failureBudget'
+    ]);
+  });
+
+  it('stops holding items back when the run aborts', async () => {
+    const controller = new AbortController();
+    const breaker = new CircuitBreaker({ maxConsecutiveFailures: 1, circuitBreaker: { coolDownMs: 60000 } }, controller.signal);
+    (await breaker.enter())(false);
+
+    const waiting = breaker.enter();
+    await sleep(10);
+    controller.abort();
+    await waiting;
+    expect(breaker.signal.aborted).toBe(true);
+    expect(breaker.dispose()).toBeUndefined();
+  });
+});
@@ -0,0 +1,81 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CompletionLedger } from '../completionLedger';
+import { processBatches, processPaginatedBatches } from '../batchProcessor';
+import { LedgerWriteError } from '../../errors';
+
+describe('CompletionLedger', () => {
+  let directory: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'batcher-ledger-'));
+    filePath = path.join(directory, 'ledger.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('records keys and reads them back from the file', async () => {
+    const ledger = new CompletionLedger(filePath);
+    await ledger.record('a');
+    await ledger.record('a');
+    await ledger.record('b');
+
+    const reopened = new CompletionLedger(filePath);
+    expect(await reopened.has('a')).toBe(true);
+    expect(await reopened.has('c')).toBe(false);
+    expect((await reopened.getAll()).map(entry => entry.key)).toEqual(['a', 'b']);
+  });
+
+  it('removes an entry torn by a crash before appending', async () => {
+    fs.writeFileSync(filePath, `${JSON.stringify({ key: 'a', completedAt: new Date().toISOString() })}\n{"key":"b","compl`);
+
+    const ledger = new CompletionLedger(filePath);
+    expect(await ledger.has('b')).toBe(false);
+    await ledger.record('c');
+
+    const reopened = new CompletionLedger(filePath);
+    expect((await reopened.getAll()).map(entry => entry.key)).toEqual(['a', 'c']);
+  });
+
+  it('skips items recorded by an earlier run even without its state', async () => {
+    const items = Array.from({ length: 10 }, (_, i) => ({ id: `item-${i}` }));
+    const controller = new AbortController();
+    const firstRun: string[] = [];
+    await processBatches(items, async (item) => {
+      firstRun.push(item.id);
+      if (firstRun.length === 4) controller.abort();
+    }, { batchSize: 5, concurrencyLimit: 1, ledger: new CompletionLedger(filePath), getItemKey: item => item.id, signal: controller.signal });
+
+    const secondRun: string[] = [];
+    await processBatches(items, async (item) => {
+      secondRun.push(item.id);
+    }, { ledger: new CompletionLedger(filePath), getItemKey: item => item.id });
+
+    expect(firstRun).toHaveLength(4);
+    expect(secondRun).toEqual(items.slice(4).map(item => item.id));
+  });
+
+  it('requires getItemKey', async () => {
+    const ledger = new CompletionLedger(filePath);
+    await expect(processBatches([1, 2], async (item) => item, { ledger })).rejects.toThrow('getItemKey');
+    await expect(processPaginatedBatches(async () => ({ items: [1] }), async (item) => item, { ledger }))
+      .rejects.toThrow('getItemKey');
+  });
+
+  it('rejects the run when a completion cannot be recorded', async () => {
+    const ledger = { has: async () => false, record: async () => { throw new Error('disk full'); } };
+    const errors: Error[] = [];
+    await expect(processBatches([1, 2, 3], async (item) => item, {
+      ledger,
+      getItemKey: item => String(item),
+      onItemError: (item, error) => {
+        errors.push(error);
+      }
+    })).rejects.toBeInstanceOf(LedgerWriteError);
+    expect(errors).toEqual([]);
+  });
+});
@@ -0,0 +1,64 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { acquireFileLock } from '../fileLock';
+import { JobLockedError } from '../../errors';
+import { LockHolder } from '../../types';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('acquireFileLock', () => {
+  let directory: string;
+  let lockPath: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'batcher-lock-'));
+    lockPath = path.join(directory, 'state.json.lock');
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  const writeHolder = (holder: Partial<LockHolder>) => {
+    const now = new Date().toISOString();
+    fs.writeFileSync(lockPath, JSON.stringify({ pid: 1, hostname: 'other-host', acquiredAt: now, heartbeatAt: now, ...holder }));
+  };
+  const readHolder = (): LockHolder => JSON.parse(fs.readFileSync(lockPath, 'utf8'));
+
+  it('refuses a lock with a live heartbeat', async () => {
+    writeHolder({});
+    await expect(acquireFileLock(lockPath, { staleMs: 1000 })).rejects.toBeInstanceOf(JobLockedError);
+  });
+
+  it('takes over a lock whose heartbeat is stale', async () => {
+    writeHolder({ heartbeatAt: new Date(Date.now() - 5000).toISOString() });
+    const lock = await acquireFileLock(lockPath, { staleMs: 1000 });
+    expect(readHolder().pid).toBe(process.pid);
+
+    await lock.release();
+    expect(fs.existsSync(lockPath)).toBe(false);
+  });
+
+  it('stops its heartbeat and aborts when the lock is taken over', async () => {
+    const lock = await acquireFileLock(lockPath, { staleMs: 1000, heartbeatMs: 20 });
+    writeHolder({ hostname: 'new-holder' });
+    await sleep(100);
+
+    expect(readHolder().hostname).toBe('new-holder');
+    expect(lock.signal?.aborted).toBe(true);
+    expect(lock.signal?.reason).toBeInstanceOf(JobLockedError);
+
+    await lock.release();
+    expect(readHolder().hostname).toBe('new-holder');
+  });
+
+  it('does not re-create the lock file after release', async () => {
+    const lock = await acquireFileLock(lockPath, { staleMs: 1000, heartbeatMs: 5 });
+    await sleep(30);
+    await lock.release();
+    await sleep(30);
+    expect(fs.existsSync(lockPath)).toBe(false);
+    expect(lock.signal?.aborted).toBe(false);
+  });
+});
@@ -0,0 +1,120 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createConsoleLogger } from '../logger';
+import { processBatches, processPaginatedBatches } from '../batchProcessor';
+import { StateManager } from '../stateManager';
+import { Logger } from '../../types';
+
+type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Logger that records the level, event and fields of every call
+ */
+function createRecordingLogger() {
+  const records: Array<{ level: LogLevel; event: unknown; fields: Record<string, unknown> }> = [];
+  const record = (level: LogLevel) => (message: string, fields: Record<string, unknown> = {}) => {
+    records.push({ level, event: fields.event, fields });
+  };
+  const logger: Logger = { debug: record('debug'), info: record('info'), warn: record('warn'), error: record('error') };
+  const events = () => records.map(entry => entry.event);
+  return { logger, records, events };
+}
+
+describe('logger', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('writes nothing to the console by default', async () => {
+    const spies = (['debug', 'info', 'log', 'warn', 'error'] as const).map(method =>
+      jest.spyOn(console, method).mockImplementation(() => {})
+    );
+    await processBatches([1, 2], async (item) => {
+      if (item === 2) throw new Error('down');
+    });
+    spies.forEach(spy => expect(spy).not.toHaveBeenCalled());
+  });
+
+  it('only writes levels at or above minLevel with the console logger', () => {
+    const debug = jest.spyOn(console, 'debug').mockImplementation(() => {});
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const logger = createConsoleLogger('warn');
+    logger.debug('hidden', { event: 'batch.start' });
+    logger.warn('shown', { event: 'item.failed' });
+
+    expect(debug).not.toHaveBeenCalled();
+    expect(warn).toHaveBeenCalledWith('shown', { event: 'item.failed' });
+  });
+
+  it('reports the lifecycle of a batch run', async () => {
+    const { logger, records, events } = createRecordingLogger();
+    let attempts = 0;
+    await processBatches([1, 2, 3], async (item) => {
+      if (item === 2) throw new Error('down');
+      if (item === 3 && attempts++ === 0) throw new Error('flaky');
+    }, { batchSize: 2, concurrencyLimit: 1, retry: { maxAttempts: 2, backoff: 'fixed', baseDelayMs: 1 }, logger });
+
+    expect(events()).toEqual([
+      'batch.start',
+      'item.retry',
+      'item.failed',
+      'batch.complete',
+      'batch.start',
+      'item.retry',
+      'batch.complete',
+      'run.complete'
+    ]);
+    expect(records.find(entry => entry.event === 'item.failed')).toMatchObject({
+      level: 'warn',
+      fields: { key: '1', batchNumber: 1, attempts: 2, error: 'down' }
+    });
+    expect(records[records.length - 1]).toMatchObject({ level: 'info', fields: { processed: 2, failed: 1 } });
+  });
+
+  it('reports page events of a paginated run', async () => {
+    const { logger, events } = createRecordingLogger();
+    await processPaginatedBatches(
+      async (page: number) => ({ items: page === 2 ? [] : [page], totalPages: 3 }),
+      async (item: number) => item,
+      { logger }
+    );
+
+    expect(events()).toEqual([
+      'page.fetch',
+      'page.complete',
+      'page.fetch',
+      'page.empty',
+      'page.fetch',
+      'page.complete',
+      'run.complete'
+    ]);
+  });
+
+  it('reports an aborted run', async () => {
+    const { logger, records } = createRecordingLogger();
+    const controller = new AbortController();
+    await processBatches([1, 2, 3], async (item) => {
+      if (item === 1) controller.abort();
+    }, { concurrencyLimit: 1, signal: controller.signal, logger });
+    expect(records[records.length - 1]).toMatchObject({ level: 'warn', event: 'run.aborted' });
+  });
+
+  it('reports state saves and recovery from a checkpoint', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'batcher-logger-'));
+    try {
+      const filePath = path.join(directory, 'state.json');
+      const { logger, records, events } = createRecordingLogger();
+      const stateManager = new StateManager(filePath, { logger });
+      await stateManager.saveState({ totalProcessed: 1 });
+      expect(events()).toEqual(['state.save']);
+
+      fs.writeFileSync(filePath, 'not json');
+      await stateManager.loadState();
+      expect(events()).toEqual(['state.save', 'state.loadFailed', 'state.recovered']);
+      expect(records[1]).toMatchObject({ level: 'warn', fields: { path: filePath } });
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,46 @@
+import { MemoryStateStore } from '../memoryStateStore';
+import { createBatchProcessorWithState } from '../../index';
+import { JobLockedError } from '../../errors';
+
+describe('MemoryStateStore', () => {
+  it('saves copies of the state', async () => {
+    const store = new MemoryStateStore();
+    expect(await store.loadState()).toEqual({});
+
+    const state = { totalProcessed: 1 };
+    await store.saveState(state);
+    state.totalProcessed = 2;
+    expect(await store.loadState()).toEqual({ totalProcessed: 1 });
+
+    await store.clearState();
+    expect(await store.loadState()).toEqual({});
+  });
+
+  it('lets one run hold the lock at a time', async () => {
+    const store = new MemoryStateStore();
+    const lock = await store.lock();
+    await expect(store.lock()).rejects.toBeInstanceOf(JobLockedError);
+    await lock.release();
+    await (await store.lock()).release();
+  });
+
+  it('resumes a run from the state it saved', async () => {
+    const store = new MemoryStateStore();
+    const items = Array.from({ length: 10 }, (_, i) => i);
+    const controller = new AbortController();
+    const first = createBatchProcessorWithState(async (item: number) => {
+      if (item === 4) controller.abort();
+      return item;
+    }, store);
+    await first.process(items, { batchSize: 2, concurrencyLimit: 1, signal: controller.signal });
+    expect(await store.loadState()).toMatchObject({ nextItemIndex: 5 });
+
+    const seen: number[] = [];
+    const second = createBatchProcessorWithState(async (item: number) => {
+      seen.push(item);
+      return item;
+    }, store);
+    await second.process(items, { batchSize: 2 });
+    expect(seen).toEqual([5, 6, 7, 8, 9]);
+  });
+});
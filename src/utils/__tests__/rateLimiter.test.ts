@@ -0,0 +1,67 @@
+import { RateLimiter } from '../rateLimiter';
+import { processBatches } from '../batchProcessor';
+import { RetryAfterError } from '../../errors';
+
+describe('RateLimiter', () => {
+  it('lets a burst through and then starts requests at the refill rate', async () => {
+    const limiter = new RateLimiter({ tokens: 5, intervalMs: 100 });
+    const start = Date.now();
+    const startedAt: number[] = [];
+    for (let i = 0; i < 15; i++) {
+      await limiter.acquire();
+      startedAt.push(Date.now() - start);
+    }
+
+    expect(startedAt[4]).toBeLessThan(20);
+    // Ten more tokens take two intervals to refill
+    expect(startedAt[14]).toBeGreaterThanOrEqual(180);
+  });
+
+  it('pauses every request after a RetryAfterError', async () => {
+    const limiter = new RateLimiter({ tokens: 100, intervalMs: 100 });
+    const start = Date.now();
+    await expect(limiter.run(async () => {
+      throw new RetryAfterError(150);
+    })).rejects.toBeInstanceOf(RetryAfterError);
+
+    await limiter.run(async () => {});
+    expect(Date.now() - start).toBeGreaterThanOrEqual(140);
+  });
+
+  it('reads the pause from getRetryAfterMs', async () => {
+    const limiter = new RateLimiter({
+      tokens: 100,
+      intervalMs: 100,
+      getRetryAfterMs: (error) => (error as { status?: number }).status === 429 ? 100 : undefined
+    });
+    const start = Date.now();
+    await expect(limiter.run(async () => {
+      throw Object.assign(new Error('Too Many Requests'), { status: 429 });
+    })).rejects.toThrow('Too Many Requests');
+
+    await limiter.acquire();
+    expect(Date.now() - start).toBeGreaterThanOrEqual(90);
+  });
+
+  it('holds back the other items of a run while it is paused', async () => {
+    const startedAt = new Map<number, number>();
+    const start = Date.now();
+    let throttled = false;
+    const result = await processBatches([1, 2, 3, 4], async (item) => {
+      if (item === 1 && !throttled) {
+        throttled = true;
+        throw new RetryAfterError(100);
+      }
+      startedAt.set(item, Date.now() - start);
+      return item;
+    }, {
+      concurrencyLimit: 1,
+      rateLimit: { tokens: 100, intervalMs: 100 },
+      retry: { maxAttempts: 2, backoff: 'fixed', baseDelayMs: 1 }
+    });
+
+    expect(result.processed).toBe(4);
+    expect(result.state.totalRetries).toBe(1);
+    startedAt.forEach(startedMs => expect(startedMs).toBeGreaterThanOrEqual(90));
+  });
+});
@@ -0,0 +1,61 @@
+import { ResumeCursor, computeInputFingerprint } from '../resumeCursor';
+
+describe('ResumeCursor', () => {
+  it('advances over contiguous completed items and keeps the rest by key', () => {
+    const cursor = new ResumeCursor();
+    cursor.markCompleted(0, 'a');
+    cursor.markCompleted(2, 'c');
+    cursor.markCompleted(3, 'd');
+    expect(cursor.toState()).toEqual({ nextItemIndex: 1, completedItemKeys: ['c', 'd'], failedItemKeys: [] });
+
+    cursor.markCompleted(1, 'b');
+    expect(cursor.toState()).toEqual({ nextItemIndex: 4, completedItemKeys: [], failedItemKeys: [] });
+  });
+
+  it('restores completed items from a saved state', () => {
+    const cursor = new ResumeCursor({ nextItemIndex: 2, completedItemKeys: ['e'] });
+    expect(cursor.isCompleted(1, 'b')).toBe(true);
+    expect(cursor.isCompleted(2, 'c')).toBe(false);
+    expect(cursor.isCompleted(4, 'e')).toBe(true);
+
+    // Keys of resumed items are dropped once the cursor passes them
+    cursor.markCompleted(2, 'c');
+    cursor.markCompleted(3, 'd');
+    cursor.markCompleted(4, 'e');
+    expect(cursor.toState()).toEqual({ nextItemIndex: 5, completedItemKeys: [], failedItemKeys: [] });
+  });
+
+  it('moves past failed items and keeps their keys until they complete', () => {
+    const cursor = new ResumeCursor();
+    cursor.markCompleted(0, 'a');
+    cursor.markFailed(2, 'c');
+    cursor.markFailed(1, 'b');
+    cursor.markCompleted(3, 'd');
+    expect(cursor.toState()).toEqual({ nextItemIndex: 4, completedItemKeys: [], failedItemKeys: ['c', 'b'] });
+
+    const resumed = new ResumeCursor(cursor.toState());
+    expect(resumed.isCompleted(0, 'a')).toBe(true);
+    expect(resumed.isCompleted(1, 'b')).toBe(false);
+    expect(resumed.isCompleted(2, 'c')).toBe(false);
+
+    resumed.markCompleted(1, 'b');
+    expect(resumed.toState().failedItemKeys).toEqual(['c']);
+    expect(resumed.isCompleted(1, 'b')).toBe(true);
+  });
+
+  it('does not count an item that failed out of order as completed', () => {
+    const cursor = new ResumeCursor();
+    cursor.markFailed(1, 'b');
+    const resumed = new ResumeCursor(cursor.toState());
+    expect(resumed.isCompleted(1, 'b')).toBe(false);
+  });
+});
+
+describe('computeInputFingerprint', () => {
+  it('changes when the input changes', () => {
+    const fingerprint = computeInputFingerprint([1, 2, 3]);
+    expect(computeInputFingerprint([1, 2, 3])).toBe(fingerprint);
+    expect(computeInputFingerprint([1, 3, 2])).not.toBe(fingerprint);
+    expect(computeInputFingerprint([1, 2])).not.toBe(fingerprint);
+  });
+});
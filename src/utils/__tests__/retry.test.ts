@@ -0,0 +1,54 @@
+import { computeBackoffDelay, withRetry } from '../retry';
+
+describe('computeBackoffDelay', () => {
+  it('doubles exponential delays up to maxDelayMs', () => {
+    const options = { backoff: 'exponential' as const, baseDelayMs: 100, maxDelayMs: 500 };
+    expect([1, 2, 3, 4].map(attempt => computeBackoffDelay(options, attempt))).toEqual([100, 200, 400, 500]);
+  });
+
+  it('keeps fixed delays constant', () => {
+    expect(computeBackoffDelay({ backoff: 'fixed', baseDelayMs: 50 }, 5)).toBe(50);
+  });
+
+  it('keeps decorrelated jitter between the base delay and three times the previous delay', () => {
+    for (let i = 0; i < 20; i++) {
+      const delayMs = computeBackoffDelay({ backoff: 'decorrelated-jitter', baseDelayMs: 10 }, 2, 100);
+      expect(delayMs).toBeGreaterThanOrEqual(10);
+      expect(delayMs).toBeLessThanOrEqual(300);
+    }
+  });
+});
+
+describe('withRetry', () => {
+  it('retries until an attempt succeeds', async () => {
+    const retries: number[] = [];
+    const result = await withRetry(
+      async (attempt) => {
+        if (attempt < 3) throw new Error(`attempt ${attempt}`);
+        return attempt;
+      },
+      { maxAttempts: 5, backoff: 'fixed', baseDelayMs: 1 },
+      (error, attempt) => {
+        retries.push(attempt);
+      }
+    );
+    expect(result).toBe(3);
+    expect(retries).toEqual([1, 2]);
+  });
+
+  it('throws the last error once the attempts run out', async () => {
+    const fn = jest.fn(async (attempt: number) => {
+      throw new Error(`attempt ${attempt}`);
+    });
+    await expect(withRetry(fn, { maxAttempts: 3, baseDelayMs: 1 })).rejects.toThrow('attempt 3');
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it('stops at an error that is not retryable', async () => {
+    const fn = jest.fn(async () => {
+      throw new Error('bad request');
+    });
+    await expect(withRetry(fn, { maxAttempts: 5, baseDelayMs: 1, isRetryable: () => false })).rejects.toThrow();
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,64 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SqliteStateStore } from '../sqliteStateStore';
+import { InvalidStateError } from '../../errors';
+
+describe('SqliteStateStore', () => {
+  let directory: string;
+  let databasePath: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'batcher-sqlite-'));
+    databasePath = path.join(directory, 'state.db');
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('round-trips and clears a saved state', async () => {
+    const store = new SqliteStateStore(databasePath);
+    expect(await store.loadState()).toEqual({});
+    await store.saveState({ totalProcessed: 1 });
+    await store.saveState({ totalProcessed: 2, nextItemIndex: 2 });
+    store.close();
+
+    const reopened = new SqliteStateStore(databasePath);
+    expect(await reopened.loadState()).toEqual({ totalProcessed: 2, nextItemIndex: 2 });
+    await reopened.clearState();
+    expect(await reopened.loadState()).toEqual({});
+    reopened.close();
+  });
+
+  it('keeps the state of each key separate', async () => {
+    const first = new SqliteStateStore(databasePath, { key: 'first' });
+    const second = new SqliteStateStore(databasePath, { key: 'second' });
+    await first.saveState({ totalProcessed: 1 });
+    await second.saveState({ totalProcessed: 2 });
+
+    expect(await first.loadState()).toEqual({ totalProcessed: 1 });
+    expect(await second.loadState()).toEqual({ totalProcessed: 2 });
+    first.close();
+    second.close();
+  });
+
+  it('rejects an invalid table name', () => {
+    expect(() => new SqliteStateStore(databasePath, { table: 'state; DROP TABLE x' })).toThrow('Invalid SQLite table name');
+  });
+
+  it('throws instead of starting over when the saved state is corrupt', async () => {
+    const store = new SqliteStateStore(databasePath);
+    await store.saveState({ totalProcessed: 1 });
+    store.close();
+
+    const Database = require('better-sqlite3');
+    const db = new Database(databasePath);
+    db.prepare('UPDATE batch_state SET state = ? WHERE key = ?').run('{"totalProcessed":', 'default');
+    db.close();
+
+    const reopened = new SqliteStateStore(databasePath);
+    await expect(reopened.loadState()).rejects.toBeInstanceOf(InvalidStateError);
+    reopened.close();
+  });
+});
@@ -0,0 +1,82 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { StateManager } from '../stateManager';
+import { InvalidStateError } from '../../errors';
+
+describe('StateManager', () => {
+  let directory: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'batcher-state-'));
+    filePath = path.join(directory, 'state.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('loads an empty state when there is no state file', async () => {
+    const stateManager = new StateManager(filePath);
+    expect(await stateManager.loadState()).toEqual({});
+  });
+
+  it('round-trips a saved state', async () => {
+    const stateManager = new StateManager(filePath);
+    await stateManager.saveState({ totalProcessed: 5, nextItemIndex: 5 });
+    expect(await new StateManager(filePath).loadState()).toMatchObject({ totalProcessed: 5, nextItemIndex: 5 });
+  });
+
+  it('coalesces saves made while a write is in flight into one write of the latest state', async () => {
+    const stateManager = new StateManager(filePath, { maxCheckpoints: 100 });
+    const saves = Array.from({ length: 20 }, (_, i) => stateManager.saveState({ totalProcessed: i + 1 }));
+    await Promise.all(saves);
+
+    // The first save is written right away; the other 19 are coalesced into one write
+    expect(await stateManager.listCheckpoints()).toHaveLength(2);
+    expect(await new StateManager(filePath).loadState()).toMatchObject({ totalProcessed: 20 });
+  });
+
+  it('waits minWriteIntervalMs between writes', async () => {
+    const stateManager = new StateManager(filePath, { minWriteIntervalMs: 100 });
+    await stateManager.saveState({ totalProcessed: 1 });
+    const start = Date.now();
+    await stateManager.saveState({ totalProcessed: 2 });
+    expect(Date.now() - start).toBeGreaterThanOrEqual(90);
+  });
+
+  it('writes pending state on flush', async () => {
+    const stateManager = new StateManager(filePath, { minWriteIntervalMs: 50 });
+    stateManager.saveState({ totalProcessed: 1 });
+    stateManager.saveState({ totalProcessed: 2 });
+    stateManager.saveState({ totalProcessed: 3 });
+    await stateManager.flush();
+    expect(JSON.parse(fs.readFileSync(filePath, 'utf8'))).toMatchObject({ totalProcessed: 3 });
+  });
+
+  it('falls back to the newest checkpoint when the state file is corrupt', async () => {
+    const stateManager = new StateManager(filePath, { maxCheckpoints: 3 });
+    await stateManager.saveState({ totalProcessed: 1 });
+    await stateManager.saveState({ totalProcessed: 2 });
+    fs.writeFileSync(filePath, '{"totalProcessed": 3');
+
+    expect(await new StateManager(filePath).loadState()).toMatchObject({ totalProcessed: 2 });
+  });
+
+  it('throws instead of starting over when no state or checkpoint can be read', async () => {
+    const stateManager = new StateManager(filePath, { maxCheckpoints: 1 });
+    await stateManager.saveState({ totalProcessed: 1 });
+    fs.writeFileSync(filePath, 'not json');
+    for (const checkpoint of await stateManager.listCheckpoints()) {
+      fs.writeFileSync(checkpoint.path, 'not json either');
+    }
+
+    await expect(new StateManager(filePath).loadState()).rejects.toBeInstanceOf(InvalidStateError);
+  });
+
+  it('throws when a corrupt state file has no checkpoints', async () => {
+    fs.writeFileSync(filePath, '');
+    await expect(new StateManager(filePath, { maxCheckpoints: 0 }).loadState()).rejects.toBeInstanceOf(InvalidStateError);
+  });
+});
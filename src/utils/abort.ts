@@ -0,0 +1,150 @@
+import { ItemTimeoutError } from '../errors';
+
+/**
+ * Wait for in-flight work to drain. Once the signal aborts, the wait is cut
+ * short after `timeoutMs` and in-flight work is abandoned.
+ * @param promise - Promise for the in-flight work
+ * @param signal - Abort signal for the run
+ * @param timeoutMs - How long to let in-flight work drain after an abort (waits indefinitely when omitted)
+ * @returns Whether the drain timed out
+ */
+export function waitForDrain(
+  promise: Promise<unknown>,
+  signal?: AbortSignal,
+  timeoutMs?: number
+): Promise<boolean> {
+  if (!signal || timeoutMs === undefined) {
+    return promise.then(() => false);
+  }
+
+  return new Promise((resolve, reject) => {
+    let timer: NodeJS.Timeout | undefined;
+    const onAbort = () => {
+      timer = setTimeout(() => resolve(true), timeoutMs);
+    };
+    const cleanup = () => {
+      signal.removeEventListener('abort', onAbort);
+      if (timer) clearTimeout(timer);
+    };
+
+    if (signal.aborted) {
+      onAbort();
+    } else {
+      signal.addEventListener('abort', onAbort, { once: true });
+    }
+
+    promise.then(
+      () => {
+        cleanup();
+        resolve(false);
+      },
+      (error) => {
+        cleanup();
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Abort a controller when another signal aborts
+ * @param controller - Controller to abort
+ * @param signal - Signal to follow (nothing happens when omitted)
+ * @returns A function that stops following the signal
+ */
+export function followSignal(controller: AbortController, signal?: AbortSignal): () => void {
+  if (!signal) {
+    return () => {};
+  }
+
+  const forwardAbort = () => controller.abort();
+  if (signal.aborted) {
+    controller.abort();
+  } else {
+    signal.addEventListener('abort', forwardAbort, { once: true });
+  }
+  return () => signal.removeEventListener('abort', forwardAbort);
+}
+
+// Longest delay setTimeout supports
+const MAX_TIMER_MS = 2147483647;
+
+/**
+ * Create a signal that aborts when another signal aborts or when a deadline passes
+ * @param signal - Signal to follow
+ * @param deadline - Wall-clock deadline as a Date or epoch milliseconds (the signal is returned as is when omitted)
+ * @returns The signal, whether the deadline was reached, and a function that stops the timer
+ */
+export function withDeadline(
+  signal: AbortSignal | undefined,
+  deadline?: Date | number
+): { signal?: AbortSignal; deadlineReached: () => boolean; clear: () => void } {
+  if (deadline === undefined) {
+    return { signal, deadlineReached: () => false, clear: () => {} };
+  }
+
+  const controller = new AbortController();
+  const unfollowSignal = followSignal(controller, signal);
+  const deadlineMs = deadline instanceof Date ? deadline.getTime() : deadline;
+  let reached = false;
+  let timer: NodeJS.Timeout;
+
+  // Long deadlines are reached in several steps
+  const schedule = () => {
+    const remaining = deadlineMs - Date.now();
+    if (remaining <= 0) {
+      reached = true;
+      controller.abort();
+      return;
+    }
+    timer = setTimeout(schedule, Math.min(remaining, MAX_TIMER_MS));
+    // The timer alone must not keep the process alive
+    timer.unref();
+  };
+  schedule();
+
+  return {
+    signal: controller.signal,
+    deadlineReached: () => reached,
+    clear: () => {
+      clearTimeout(timer);
+      unfollowSignal();
+    }
+  };
+}
+
+/**
+ * Run a function with a time limit. The function gets a signal that aborts
+ * when the time runs out or when `signal` aborts.
+ * @param fn - Function to run
+ * @param timeoutMs - Time limit in milliseconds (no limit when omitted)
+ * @param signal - Signal to follow
+ * @returns The value returned by the function
+ * @throws ItemTimeoutError if the function doesn't settle in time
+ */
+export function runWithTimeout<R>(
+  fn: (signal?: AbortSignal) => Promise<R>,
+  timeoutMs: number | undefined,
+  signal?: AbortSignal
+): Promise<R> {
+  if (timeoutMs === undefined) {
+    return fn(signal);
+  }
+
+  const controller = new AbortController();
+  const unfollowSignal = followSignal(controller, signal);
+  return new Promise<R>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      reject(new ItemTimeoutError(timeoutMs));
+      controller.abort();
+    }, timeoutMs);
+
+    Promise.resolve()
+      .then(() => fn(controller.signal))
+      .then(resolve, reject)
+      .finally(() => {
+        clearTimeout(timer);
+        unfollowSignal();
+      });
+  });
+}
@@ -0,0 +1,208 @@
+import { AdaptiveConcurrencyOptions, LatencyPercentiles, Logger } from '../types';
+import { silentLogger } from './logger';
+
+// Number of recent latencies kept for the reported percentiles
+const RECENT_SAMPLES = 200;
+
+/**
+ * AdaptiveConcurrency limits how many calls run at once and adjusts the limit
+ * with AIMD: it grows additively while calls succeed at a steady latency and
+ * shrinks multiplicatively on overload errors or rising latency.
+ */
+export class AdaptiveConcurrency {
+  private min: number;
+  private max: number;
+  private limit: number;
+  private increaseBy: number;
+  private decreaseFactor: number;
+  private sampleSize: number;
+  private latencyTolerance: number;
+  private isOverloadError: (error: Error) => boolean;
+  private logger: Logger;
+  private active = 0;
+  private waiters: Array<() => void> = [];
+  private window: number[] = [];
+  private recent: number[] = [];
+  private baselineMs?: number;
+  private completedSinceDecrease = Infinity;
+
+  /**
+   * Create an adaptive concurrency limiter
+   * @param options - Bounds, starting limit and adjustment settings
+   */
+  constructor(options: AdaptiveConcurrencyOptions = {}) {
+    const {
+      min = 1,
+      max = 100,
+      initial = min,
+      increaseBy = 1,
+      decreaseFactor = 0.5,
+      sampleSize = 20,
+      latencyTolerance = 2,
+      isOverloadError = () => true,
+      logger = silentLogger
+    } = options;
+
+    if (min < 1 || max < min) {
+      throw new Error('Adaptive concurrency needs 1 <= min <= max');
+    }
+    if (decreaseFactor <= 0 || decreaseFactor >= 1) {
+      throw new Error('Adaptive concurrency decreaseFactor must be between 0 and 1');
+    }
+
+    this.min = min;
+    this.max = max;
+    this.limit = Math.min(max, Math.max(min, Math.round(initial)));
+    this.increaseBy = increaseBy;
+    this.decreaseFactor = decreaseFactor;
+    this.sampleSize = Math.max(1, sampleSize);
+    this.latencyTolerance = latencyTolerance;
+    this.isOverloadError = isOverloadError;
+    this.logger = logger;
+  }
+
+  /**
+   * Get the current concurrency limit
+   */
+  getLimit(): number {
+    return this.limit;
+  }
+
+  /**
+   * Get the upper bound of the concurrency limit
+   */
+  getMax(): number {
+    return this.max;
+  }
+
+  /**
+   * Get latency percentiles over the most recent calls
+   * @returns The percentiles in milliseconds, or undefined before the first call completes
+   */
+  getLatencyPercentiles(): LatencyPercentiles | undefined {
+    if (this.recent.length === 0) {
+      return undefined;
+    }
+    const sorted = [...this.recent].sort((a, b) => a - b);
+    return {
+      p50: percentile(sorted, 50),
+      p90: percentile(sorted, 90),
+      p99: percentile(sorted, 99)
+    };
+  }
+
+  /**
+   * Get the current limit and latency percentiles as state fields
+   */
+  toState(): { concurrency: number; latencyMs?: LatencyPercentiles } {
+    return { concurrency: this.limit, latencyMs: this.getLatencyPercentiles() };
+  }
+
+  /**
+   * Run a function once a slot is free, and use its latency and outcome to adjust the limit
+   * @param fn - Function to run
+   * @param signal - Optional abort signal; the function is not started once it aborts
+   */
+  async run<R>(fn: () => Promise<R>, signal?: AbortSignal): Promise<R> {
+    while (this.active >= this.limit) {
+      await new Promise<void>(resolve => this.waiters.push(resolve));
+    }
+    this.active++;
+
+    try {
+      if (signal?.aborted) {
+        throw new Error('Aborted while waiting for a concurrency slot');
+      }
+      const start = Date.now();
+      try {
+        const result = await fn();
+        this.record(Date.now() - start);
+        return result;
+      } catch (error) {
+        // Interrupted calls say nothing about the downstream's health
+        if (!signal?.aborted) {
+          this.record(Date.now() - start, error instanceof Error ? error : new Error(String(error)));
+        }
+        throw error;
+      }
+    } finally {
+      this.active--;
+      this.wakeWaiters();
+    }
+  }
+
+  /**
+   * Record a completed call and adjust the limit
+   */
+  private record(latencyMs: number, error?: Error): void {
+    this.recent.push(latencyMs);
+    if (this.recent.length > RECENT_SAMPLES) {
+      this.recent.shift();
+    }
+    this.completedSinceDecrease++;
+
+    if (error && this.isOverloadError(error)) {
+      // Calls started before the last decrease still report the old load, so
+      // decrease at most once per round of in-flight calls
+      if (this.completedSinceDecrease >= this.limit) {
+        this.decrease('error');
+      }
+      return;
+    }
+
+    this.window.push(latencyMs);
+    if (this.window.length < this.sampleSize) {
+      return;
+    }
+
+    const medianMs = percentile([...this.window].sort((a, b) => a - b), 50);
+    this.window = [];
+    if (this.baselineMs !== undefined && medianMs > this.baselineMs * this.latencyTolerance) {
+      this.decrease('latency');
+    } else {
+      this.increase();
+    }
+
+    // Track the lowest median, drifting up slowly so a lasting slowdown becomes the new normal
+    this.baselineMs = this.baselineMs === undefined || medianMs < this.baselineMs
+      ? medianMs
+      : this.baselineMs * 0.9 + medianMs * 0.1;
+  }
+
+  private increase(): void {
+    const limit = Math.min(this.max, this.limit + this.increaseBy);
+    if (limit === this.limit) return;
+    this.setLimit(limit, 'healthy');
+    this.wakeWaiters();
+  }
+
+  private decrease(reason: 'error' | 'latency'): void {
+    this.completedSinceDecrease = 0;
+    this.window = [];
+    const limit = Math.max(this.min, Math.floor(this.limit * this.decreaseFactor));
+    if (limit === this.limit) return;
+    this.setLimit(limit, reason);
+  }
+
+  private setLimit(limit: number, reason: string): void {
+    this.logger.debug(`Concurrency ${limit > this.limit ? 'raised' : 'lowered'} to ${limit}`, {
+      event: 'concurrency.change',
+      from: this.limit,
+      to: limit,
+      reason
+    });
+    this.limit = limit;
+  }
+
+  private wakeWaiters(): void {
+    this.waiters.splice(0, Math.max(0, this.limit - this.active)).forEach(resolve => resolve());
+  }
+}
+
+/**
+ * Nearest-rank percentile of sorted values
+ */
+function percentile(sorted: number[], p: number): number {
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, rank - 1))];
+}
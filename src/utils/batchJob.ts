@@ -0,0 +1,222 @@
+import { EventEmitter } from 'events';
+import {
+  BaseState,
+  BatchInput,
+  BatchJobEvents,
+  BatchOptions,
+  BatchResult,
+  CursorPageFetcher,
+  PageFetcher,
+  PaginatedBatchOptions,
+  State
+} from '../types';
+import { processBatches, processPaginatedBatches } from './batchProcessor';
+import { followSignal } from './abort';
+
+type BatchJobEvent<T, R, S extends BaseState> = keyof BatchJobEvents<T, R, S>;
+
+export interface BatchJob<T, R, S extends BaseState = State> {
+  on<E extends BatchJobEvent<T, R, S>>(event: E, listener: (...args: BatchJobEvents<T, R, S>[E]) => void): this;
+  once<E extends BatchJobEvent<T, R, S>>(event: E, listener: (...args: BatchJobEvents<T, R, S>[E]) => void): this;
+  off<E extends BatchJobEvent<T, R, S>>(event: E, listener: (...args: BatchJobEvents<T, R, S>[E]) => void): this;
+  emit<E extends BatchJobEvent<T, R, S>>(event: E, ...args: BatchJobEvents<T, R, S>[E]): boolean;
+}
+
+/**
+ * BatchJob runs processBatches or processPaginatedBatches and emits each
+ * callback as an event, so several subscribers can follow the same run.
+ * Callbacks passed in the options are still called, before the event is emitted.
+ */
+export class BatchJob<T, R, S extends BaseState = State> extends EventEmitter {
+  /**
+   * Resolves with the run's statistics once it ends, including when it is cancelled
+   */
+  readonly result: Promise<BatchResult<T, R, S>>;
+  private runner: (signal: AbortSignal) => Promise<BatchResult<T, R, S>>;
+  private signal?: AbortSignal;
+  private controller = new AbortController();
+  private started = false;
+  private paused = false;
+  private resumeWaiters: Array<() => void> = [];
+  private resolveResult!: (result: BatchResult<T, R, S>) => void;
+  private rejectResult!: (error: unknown) => void;
+
+  /**
+   * Create a job that processes items with processBatches
+   * @param items - Items to process: an array, an iterable, an async iterable or a Node object stream
+   * @param processFunction - Async function to process each item
+   * @param options - Configuration options
+   */
+  constructor(
+    items: BatchInput<T>,
+    processFunction: (item: T, index: number, state: S, signal?: AbortSignal) => Promise<R>,
+    options: BatchOptions<T, R, S> = {}
+  ) {
+    super();
+    this.result = new Promise((resolve, reject) => {
+      this.resolveResult = resolve;
+      this.rejectResult = reject;
+    });
+    // Subscribers may only listen for events, so a failed run must not become an unhandled rejection
+    this.result.catch(() => {});
+
+    this.signal = options.signal;
+    this.runner = (signal) => processBatches(items, processFunction, {
+      ...options,
+      signal,
+      waitUntilResumed: this.holdWhilePaused(options.waitUntilResumed),
+      onBatchStart: this.relay('batchStart', options.onBatchStart),
+      onBatchComplete: this.relay('batchComplete', options.onBatchComplete),
+      onItemSuccess: this.relay('itemSuccess', options.onItemSuccess),
+      onItemError: this.relay('itemError', options.onItemError),
+      onItemRetry: this.relay('itemRetry', options.onItemRetry),
+      onItemSettled: this.relay('itemSettled', options.onItemSettled),
+      onStateUpdate: this.relay('stateUpdate', options.onStateUpdate)
+    });
+  }
+
+  /**
+   * Create a job that fetches and processes pages with processPaginatedBatches
+   * @param fetchPageFunction - Function to fetch a page of items
+   * @param processFunction - Async function to process each item
+   * @param options - Configuration options
+   */
+  static paginated<T, R, S extends BaseState = State>(
+    fetchPageFunction: CursorPageFetcher<T, S>,
+    processFunction: (item: T, index: number, state: S, signal?: AbortSignal) => Promise<R>,
+    options: PaginatedBatchOptions<T, R, S> & { pagination: 'cursor' }
+  ): BatchJob<T, R, S>;
+  static paginated<T, R, S extends BaseState = State>(
+    fetchPageFunction: PageFetcher<T, S>,
+    processFunction: (item: T, index: number, state: S, signal?: AbortSignal) => Promise<R>,
+    options?: PaginatedBatchOptions<T, R, S> & { pagination?: 'page' }
+  ): BatchJob<T, R, S>;
+  static paginated<T, R, S extends BaseState = State>(
+    fetchPageFunction: CursorPageFetcher<T, S> | PageFetcher<T, S>,
+    processFunction: (item: T, index: number, state: S, signal?: AbortSignal) => Promise<R>,
+    options: PaginatedBatchOptions<T, R, S> = {}
+  ): BatchJob<T, R, S> {
+    const job = new BatchJob<T, R, S>([], processFunction);
+    job.signal = options.signal;
+    job.runner = (signal) => {
+      const runOptions: PaginatedBatchOptions<T, R, S> = {
+        ...options,
+        signal,
+        waitUntilResumed: job.holdWhilePaused(options.waitUntilResumed),
+        onPageStart: job.relay('pageStart', options.onPageStart),
+        onPageComplete: job.relay('pageComplete', options.onPageComplete),
+        onPageRetry: job.relay('pageRetry', options.onPageRetry),
+        onPageError: job.relay('pageError', options.onPageError),
+        onItemSuccess: job.relay('itemSuccess', options.onItemSuccess),
+        onItemError: job.relay('itemError', options.onItemError),
+        onItemRetry: job.relay('itemRetry', options.onItemRetry),
+        onStateUpdate: job.relay('stateUpdate', options.onStateUpdate)
+      };
+      // The overloads tie the type of fetchPageFunction to `pagination`
+      return options.pagination === 'cursor'
+        ? processPaginatedBatches(fetchPageFunction as CursorPageFetcher<T, S>, processFunction, {
+          ...runOptions,
+          pagination: 'cursor'
+        })
+        : processPaginatedBatches(fetchPageFunction as PageFetcher<T, S>, processFunction, {
+          ...runOptions,
+          pagination: 'page'
+        });
+    };
+    return job;
+  }
+
+  /**
+   * Start the run. Calling it again has no effect.
+   * @returns The result promise
+   */
+  start(): Promise<BatchResult<T, R, S>> {
+    if (this.started) {
+      return this.result;
+    }
+    this.started = true;
+
+    const unfollowSignal = followSignal(this.controller, this.signal);
+    this.runner(this.controller.signal).then(
+      (result) => {
+        unfollowSignal();
+        this.resolveResult(result);
+        this.emit('done', result);
+      },
+      (error) => {
+        unfollowSignal();
+        this.rejectResult(error);
+        // An 'error' event without listeners would throw
+        if (this.listenerCount('error') > 0) {
+          this.emit('error', error);
+        }
+      }
+    );
+    return this.result;
+  }
+
+  /**
+   * Stop starting new items (and fetching new pages). Items already running finish.
+   */
+  pause(): void {
+    if (this.paused) return;
+    this.paused = true;
+    this.emit('pause');
+  }
+
+  /**
+   * Continue a paused run
+   */
+  resume(): void {
+    if (!this.paused) return;
+    this.paused = false;
+    this.wakeResumeWaiters();
+    this.emit('resume');
+  }
+
+  /**
+   * Cancel the run. In-flight items drain and the result resolves with `aborted: true`.
+   */
+  cancel(): void {
+    this.controller.abort();
+    this.wakeResumeWaiters();
+  }
+
+  /**
+   * Whether the run is paused
+   */
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Build the scheduling hook that holds new items and page fetches back while
+   * the job is paused. Items are held before they start, so a pause never
+   * counts toward their timeout, rate limit or latency.
+   */
+  private holdWhilePaused(waitUntilResumed?: () => Promise<void>): () => Promise<void> {
+    return async () => {
+      await waitUntilResumed?.();
+      while (this.paused && !this.controller.signal.aborted) {
+        await new Promise<void>(resolve => this.resumeWaiters.push(resolve));
+      }
+    };
+  }
+
+  /**
+   * Build a callback that calls the user's callback, then emits the event
+   */
+  private relay<E extends BatchJobEvent<T, R, S>>(
+    event: E,
+    callback?: (...args: BatchJobEvents<T, R, S>[E]) => Promise<void> | void
+  ): (...args: BatchJobEvents<T, R, S>[E]) => Promise<void> {
+    return async (...args: BatchJobEvents<T, R, S>[E]) => {
+      await callback?.(...args);
+      this.emit(event, ...args);
+    };
+  }
+
+  private wakeResumeWaiters(): void {
+    this.resumeWaiters.splice(0).forEach(resolve => resolve());
+  }
+}
@@ -2,23 +2,139 @@ import pLimit from 'p-limit';
 import { 
   BatchOptions, 
   BatchResult, 
+  BaseState, 
   State, 
   PageData, 
-  PaginatedBatchOptions 
+  PageCursor,
+  PageFetcher,
+  CursorPageFetcher,
+  PageFailure,
+  PaginatedBatchOptions,
+  ReplayOptions,
+  DeadLetterEntry,
+  Logger,
+  RateLimitOptions,
+  AdaptiveConcurrencyOptions,
+  SettledItem,
+  BatchInput,
+  CompletionStore
 } from '../types';
+import { InputChangedError, FailureBudgetExceededError, LedgerWriteError } from '../errors';
+import { ResumeCursor, computeInputFingerprint } from './resumeCursor';
+import { withRetry } from './retry';
+import { createDeadLetterEntry } from './deadLetterQueue';
+import { waitForDrain, withDeadline, runWithTimeout } from './abort';
+import { RateLimiter } from './rateLimiter';
+import { AdaptiveConcurrency } from './adaptiveConcurrency';
+import { CircuitBreaker } from './circuitBreaker';
+import { PartitionQueue } from './partitionQueue';
+import { readBatches, readAhead } from './batchSource';
+import { silentLogger } from './logger';
+
+/**
+ * A page fetched by processPaginatedBatches, or the error that stopped it from being fetched
+ */
+interface FetchedPage<T> {
+  pageData?: PageData<T>;
+  error?: Error;
+  attempts: number;
+}
+
+/**
+ * Create a rate limiter from the rateLimit option
+ */
+function createRateLimiter(rateLimit?: RateLimitOptions | RateLimiter): RateLimiter | undefined {
+  if (!rateLimit) return undefined;
+  return rateLimit instanceof RateLimiter ? rateLimit : new RateLimiter(rateLimit);
+}
+
+/**
+ * Run a function through the rate limiter, if there is one
+ */
+function runLimited<R>(limiter: RateLimiter | undefined, fn: () => Promise<R>, signal?: AbortSignal): Promise<R> {
+  return limiter ? limiter.run(fn, signal) : fn();
+}
+
+/**
+ * Create an adaptive concurrency limiter from the adaptiveConcurrency option.
+ * concurrencyLimit is the default upper bound, and a resumed run starts from
+ * the concurrency recorded in its state.
+ */
+function createAdaptiveConcurrency(
+  adaptiveConcurrency: boolean | AdaptiveConcurrencyOptions | AdaptiveConcurrency | undefined,
+  concurrencyLimit: number,
+  initialState: BaseState,
+  logger: Logger
+): AdaptiveConcurrency | undefined {
+  if (!adaptiveConcurrency) return undefined;
+  if (adaptiveConcurrency instanceof AdaptiveConcurrency) return adaptiveConcurrency;
+
+  const options = adaptiveConcurrency === true ? {} : adaptiveConcurrency;
+  return new AdaptiveConcurrency({
+    logger,
+    max: concurrencyLimit,
+    initial: initialState.concurrency ?? concurrencyLimit,
+    ...options
+  });
+}
+
+/**
+ * Run a function through the adaptive concurrency limiter, if there is one
+ */
+function runAdaptive<R>(adaptive: AdaptiveConcurrency | undefined, fn: () => Promise<R>, signal?: AbortSignal): Promise<R> {
+  return adaptive ? adaptive.run(fn, signal) : fn();
+}
+
+/**
+ * Record a completed item in the ledger
+ * @throws LedgerWriteError if the ledger could not record it
+ */
+async function recordCompletion(ledger: CompletionStore, key: string): Promise<void> {
+  try {
+    await ledger.record(key);
+  } catch (error) {
+    throw new LedgerWriteError(key, error);
+  }
+}
+
+/**
+ * Log the end of a run and return its result
+ * @throws FailureBudgetExceededError if the circuit breaker stopped the run
+ */
+function finishRun<T, R, S extends BaseState>(
+  logger: Logger,
+  result: BatchResult<T, R, S>,
+  abandoned: boolean,
+  breaker?: CircuitBreaker
+): BatchResult<T, R, S> {
+  const { processed, failed } = result;
+  const stopped = breaker?.dispose();
+  if (stopped) {
+    throw new FailureBudgetExceededError(stopped.message, stopped.reason, result);
+  }
+
+  if (result.deadlineReached) {
+    logger.warn('Run stopped at its deadline', { event: 'run.deadline', processed, failed, abandoned });
+  } else if (result.aborted) {
+    logger.warn('Run aborted', { event: 'run.aborted', processed, failed, abandoned });
+  } else {
+    logger.info('Run completed', { event: 'run.complete', processed, failed });
+  }
+  return result;
+}
 
 /**
  * Process items in batches with controlled concurrency
- * @param items - Array of items to process
+ * @param items - Items to process: an array, an iterable, an async iterable or a Node object stream
  * @param processFunction - Async function to process each item
  * @param options - Configuration options
  * @returns Statistics about the processing
  */
-export async function processBatches<T, R>(
-  items: T[], 
-  processFunction: (item: T, index: number, state: State) => Promise<R>, 
-  options: BatchOptions = {}
-): Promise<BatchResult> {
+export async function processBatches<T, R, S extends BaseState = State>(
+  items: BatchInput<T>, 
+  processFunction: (item: T, index: number, state: S, signal?: AbortSignal) => Promise<R>, 
+  options: BatchOptions<T, R, S> = {}
+): Promise<BatchResult<T, R, S>> {
   const {
     batchSize = 20,
     concurrencyLimit = 10,
@@ -26,41 +142,213 @@ export async function processBatches<T, R>(
     onBatchComplete = () => {},
     onItemSuccess = () => {},
     onItemError = () => {},
+    onItemRetry = () => {},
+    onItemSettled = () => {},
     onStateUpdate = () => {},
     stateUpdateInterval = 5,
-    initialState = {}
+    initialState = {} as S,
+    retry = { maxAttempts: 1 },
+    deadLetterQueue,
+    ledger,
+    signal: callerSignal,
+    abortTimeoutMs,
+    itemTimeoutMs,
+    deadline,
+    rateLimit,
+    adaptiveConcurrency,
+    failurePolicy,
+    waitUntilResumed,
+    collectResults = false,
+    scheduling = 'barrier',
+    maxOpenBatches = 16,
+    getItemKey,
+    dedupeBy,
+    partitionBy,
+    resume = true,
+    verifyFingerprint = true,
+    logger = silentLogger
   } = options;
 
+  // Position-based keys would let a changed input skip items that never ran
+  if (ledger && !getItemKey) {
+    throw new Error('A completion ledger needs getItemKey to give items stable keys');
+  }
+
+  // Only arrays can be fingerprinted up front; streams are consumed as they are processed
+  const inputFingerprint = Array.isArray(items) ? computeInputFingerprint(items, getItemKey) : undefined;
+  if (
+    resume &&
+    inputFingerprint &&
+    verifyFingerprint &&
+    initialState.inputFingerprint &&
+    initialState.inputFingerprint !== inputFingerprint
+  ) {
+    throw new InputChangedError(initialState.inputFingerprint, inputFingerprint);
+  }
+
+  // Reaching the deadline or exhausting the failure budget stops the run like an abort
+  const deadlineSignal = withDeadline(callerSignal, deadline);
+  const breaker = failurePolicy ? new CircuitBreaker(failurePolicy, deadlineSignal.signal, logger) : undefined;
+  const signal = breaker ? breaker.signal : deadlineSignal.signal;
+
+  const limiter = createRateLimiter(rateLimit);
+  const adaptive = createAdaptiveConcurrency(adaptiveConcurrency, concurrencyLimit, initialState, logger);
+  const keyOf = (item: T, index: number) => (getItemKey ? getItemKey(item, index) : String(index));
+  const cursor = new ResumeCursor(resume ? initialState : {});
+  const seenKeys = new Set<string>();
+  const partitions = new PartitionQueue();
   let totalProcessed = initialState.totalProcessed || 0;
   let totalFailed = initialState.totalFailed || 0;
-  let currentState: State = { ...initialState };
-  const totalBatches = Math.ceil(items.length / batchSize);
+  let totalRetries = initialState.totalRetries || 0;
+  let currentState: S = { ...initialState, inputFingerprint };
+  const totalBatches = Array.isArray(items) ? Math.ceil(items.length / batchSize) : undefined;
+  const settled: SettledItem<T, R>[] | undefined = collectResults ? [] : undefined;
+  
+  // Record the outcome of an item and pass it to onItemSettled
+  const settleItem = async (settledItem: SettledItem<T, R>) => {
+    if (settled) settled[settledItem.index] = settledItem;
+    await onItemSettled(settledItem, currentState);
+  };
 
-  for (let i = 0; i < items.length; i += batchSize) {
-    const batch = items.slice(i, i + batchSize);
+  // Barrier scheduling runs one batch at a time; sliding scheduling shares one
+  // concurrency pool and keeps reading batches while the pool has room, so
+  // items of later batches start as soon as a slot frees up.
+  // With adaptive concurrency the pool is sized for its upper bound.
+  const poolSize = adaptive ? adaptive.getMax() : concurrencyLimit;
+  const limit = pLimit(poolSize);
+  // Batches that finished early wait for the ones before them, so the sliding
+  // reader keeps a bounded number open, but always enough to fill the pool
+  const maxIncompleteBatches = Math.max(maxOpenBatches, Math.ceil(poolSize / batchSize) + 1);
+  let incompleteBatches = 0;
+  let previousBatch: Promise<void> = Promise.resolve();
+  let lastBatchNumber: number | undefined;
+  let abandoned = false;
+  let batchFailed = false;
+  let batchStart = 0;
+  
+  // Wakes the sliding reader when an item leaves the pool's queue, a batch
+  // completes or fails, or the run aborts
+  let wakeReader = () => {};
+  signal?.addEventListener('abort', () => wakeReader(), { once: true });
+
+  // Batches are pulled one at a time, so stream inputs are read with backpressure
+  for await (const slice of readBatches(items, batchSize)) {
+    if (signal?.aborted || batchFailed) {
+      break;
+    }
+    const i = batchStart;
     const batchNumber = Math.floor(i / batchSize) + 1;
+    batchStart += slice.length;
+
+    // Skip items completed by a previous run, and repeated keys with dedupeBy
+    let duplicates = 0;
+    let entries = slice
+      .map((item, offset) => ({ item, index: i + offset, key: keyOf(item, i + offset) }))
+      .filter(({ item, index, key }) => {
+        const dedupeKey = dedupeBy?.(item);
+        const duplicate = dedupeKey !== undefined && seenKeys.has(dedupeKey);
+        if (dedupeKey !== undefined) seenKeys.add(dedupeKey);
+        if (!duplicate && !cursor.isCompleted(index, key)) return true;
+        if (duplicate) duplicates++;
+        cursor.markCompleted(index, key);
+        return false;
+      });
+    if (duplicates > 0) {
+      logger.debug(`Skipping ${duplicates} duplicate items`, { event: 'dedupe.skip', batchNumber, count: duplicates });
+    }
+    
+    // The ledger also knows items that completed after the last saved state
+    if (ledger && entries.length > 0) {
+      const completed = await Promise.all(entries.map(({ key }) => ledger.has(key)));
+      const skipped = entries.filter((entry, n) => completed[n]);
+      skipped.forEach(({ index, key }) => cursor.markCompleted(index, key));
+      if (skipped.length > 0) {
+        logger.debug(`Skipping ${skipped.length} items recorded in the ledger`, {
+          event: 'ledger.skip',
+          batchNumber,
+          count: skipped.length
+        });
+      }
+      entries = entries.filter((entry, n) => !completed[n]);
+    }
+    if (entries.length === 0) {
+      continue;
+    }
+    const batch = entries.map(({ item }) => item);
+    lastBatchNumber = batchNumber;
     
     // Notify batch start
+    logger.debug(`Starting batch ${batchNumber}`, { event: 'batch.start', batchNumber, totalBatches, size: batch.length });
     await onBatchStart(batchNumber, totalBatches, batch, currentState);
     
-    const limit = pLimit(concurrencyLimit);
     let batchProcessed = 0;
     
-    // Process items in the batch with concurrency limit
-    await Promise.all(
-      batch.map((item, index) => limit(async () => {
+    // Process items in the batch with concurrency limit. Items of a partition
+    // wait for each other before they take a slot.
+    const batchPromise = Promise.all(
+      entries.map(({ item, index, key }) => partitions.run(partitionBy?.(item), () => limit(async () => {
+        wakeReader();
+        
+        // Don't schedule new items once aborted, and hold them back while the run is paused
+        if (signal?.aborted) return null;
+        if (waitUntilResumed) {
+          await waitUntilResumed();
+          if (signal?.aborted) return null;
+        }
+        
+        // The circuit breaker holds items back while it is open
+        const reportOutcome = breaker ? await breaker.enter() : () => {};
+        if (signal?.aborted) {
+          reportOutcome();
+          return null;
+        }
+        
+        let attempts = 0;
         try {
-          const result = await processFunction(item, index, currentState);
+          const result = await withRetry(
+            (attempt) => {
+              attempts = attempt;
+              return runLimited(
+                limiter,
+                () => runAdaptive(
+                  adaptive,
+                  () => runWithTimeout(
+                    (attemptSignal) => processFunction(item, index - i, currentState, attemptSignal),
+                    itemTimeoutMs,
+                    signal
+                  ),
+                  signal
+                ),
+                signal
+              );
+            },
+            retry,
+            async (error, attempt, delayMs) => {
+              totalRetries++;
+              logger.debug(`Retrying item ${key}`, { event: 'item.retry', key, attempt, delayMs, error: error.message });
+              await onItemRetry(item, error, attempt, delayMs, currentState);
+            },
+            signal
+          );
+          // Record the completion first, so the item is never run again once it succeeded
+          if (ledger) await recordCompletion(ledger, key);
+          reportOutcome(true);
+          if (abandoned) return null;
           totalProcessed++;
           batchProcessed++;
+          cursor.markCompleted(index, key);
           await onItemSuccess(item, result, totalProcessed, currentState);
+          await settleItem({ item, index, status: 'fulfilled', value: result });
           
           // Update state periodically
           if (batchProcessed % stateUpdateInterval === 0 || batchProcessed === batch.length) {
             currentState = {
               ...currentState,
+              ...cursor.toState(),
+              ...adaptive?.toState(),
               totalProcessed,
               totalFailed,
+              totalRetries,
               lastUpdated: new Date().toISOString()
             };
             await onStateUpdate(currentState, batchNumber, totalBatches);
@@ -68,67 +356,331 @@ export async function processBatches<T, R>(
           
           return result;
         } catch (error) {
+          // The item succeeded, so it must not be counted as failed
+          if (error instanceof LedgerWriteError) throw error;
+          
+          // Items interrupted by an abort stay unprocessed so a resumed run picks them up
+          if (abandoned || signal?.aborted) {
+            reportOutcome();
+            return null;
+          }
+          
+          const err = error instanceof Error ? error : new Error(String(error));
+          reportOutcome(false);
           totalFailed++;
-          await onItemError(item, error instanceof Error ? error : new Error(String(error)), totalFailed, currentState);
+          logger.warn(`Item ${key} failed`, { event: 'item.failed', key, batchNumber, attempts, error: err.message });
+          
+          // A dead-lettered item is replayed from the queue; without a queue the
+          // item is recorded as failed, so a resumed run tries it again
+          if (deadLetterQueue) {
+            await deadLetterQueue.add(createDeadLetterEntry(item, key, err, attempts, { batchNumber }));
+            cursor.markCompleted(index, key);
+          } else {
+            cursor.markFailed(index, key);
+          }
+          await onItemError(item, err, totalFailed, currentState);
+          await settleItem({ item, index, status: 'rejected', error: err });
           return null;
         }
-      }))
+      })))
     );
     
-    // Update state at the end of each batch
+    // Batches complete in order, so a checkpoint never runs ahead of an unfinished batch.
+    // A batch may fail while an earlier one is still running; its failure is
+    // handled through the chain, so it must not count as unhandled meanwhile.
+    batchPromise.catch(() => {});
+    incompleteBatches++;
+    const completion = previousBatch.then(() => batchPromise).then(async () => {
+      if (abandoned || signal?.aborted) return;
+      
+      // Update state at the end of each batch
+      currentState = {
+        ...currentState,
+        ...cursor.toState(),
+        ...adaptive?.toState(),
+        totalProcessed,
+        totalFailed,
+        totalRetries,
+        lastUpdated: new Date().toISOString()
+      };
+      await onStateUpdate(currentState, batchNumber, totalBatches);
+      
+      // Notify batch completion
+      logger.debug(`Completed batch ${batchNumber}`, {
+        event: 'batch.complete',
+        batchNumber,
+        totalBatches,
+        totalProcessed,
+        totalFailed
+      });
+      await onBatchComplete(batchNumber, totalBatches, batch, totalProcessed, totalFailed, currentState);
+    });
+    // Failures surface when the batch is awaited below; later batches reject with them
+    completion.then(() => {
+      incompleteBatches--;
+      wakeReader();
+    }, () => {
+      incompleteBatches--;
+      batchFailed = true;
+      wakeReader();
+    });
+    previousBatch = completion;
+    
+    if (scheduling === 'sliding') {
+      // Read the next batch once fewer than a pool's worth of items are waiting
+      // for a slot or for their partition, and the batches still open leave room for another
+      while (
+        (limit.pendingCount + partitions.waitingCount >= poolSize || incompleteBatches >= maxIncompleteBatches) &&
+        !signal?.aborted &&
+        !batchFailed
+      ) {
+        await new Promise<void>(resolve => {
+          wakeReader = resolve;
+        });
+      }
+    } else {
+      abandoned = await waitForDrain(completion, signal, abortTimeoutMs);
+      if (abandoned) break;
+    }
+  }
+  
+  if (!abandoned) {
+    abandoned = await waitForDrain(previousBatch, signal, abortTimeoutMs);
+  }
+  
+  // Write a final state for an interrupted run
+  if (signal?.aborted && lastBatchNumber !== undefined) {
     currentState = {
       ...currentState,
+      ...cursor.toState(),
+      ...adaptive?.toState(),
       totalProcessed,
       totalFailed,
+      totalRetries,
       lastUpdated: new Date().toISOString()
     };
-    await onStateUpdate(currentState, batchNumber, totalBatches);
-    
-    // Notify batch completion
-    await onBatchComplete(batchNumber, totalBatches, batch, totalProcessed, totalFailed, currentState);
+    await onStateUpdate(currentState, lastBatchNumber, totalBatches);
   }
   
-  return {
+  deadlineSignal.clear();
+  return finishRun(logger, {
     processed: totalProcessed,
     failed: totalFailed,
-    state: currentState
-  };
+    state: currentState,
+    aborted: Boolean(signal?.aborted),
+    deadlineReached: deadlineSignal.deadlineReached(),
+    // Drop the holes left by skipped and interrupted items
+    settled: settled && settled.filter(Boolean)
+  }, abandoned, breaker);
 }
 
 /**
- * Process items in paginated batches with controlled concurrency
+ * Process items in paginated batches with controlled concurrency.
+ *
+ * With `pagination: 'cursor'`, `fetchPageFunction` gets the cursor returned
+ * with the previous page (undefined for the first page) and pages are fetched
+ * until a page returns no `nextCursor`/`nextToken`. The cursor is kept in the
+ * state so a resumed run continues from the page it stopped on.
  * @param fetchPageFunction - Function to fetch a page of items
  * @param processFunction - Async function to process each item
  * @param options - Configuration options
  * @returns Processing statistics
  */
-export async function processPaginatedBatches<T, R>(
-  fetchPageFunction: (page: number, state: State) => Promise<PageData>,
-  processFunction: (item: T, index: number, state: State) => Promise<R>,
-  options: PaginatedBatchOptions = {}
-): Promise<BatchResult> {
+export async function processPaginatedBatches<T, R, S extends BaseState = State>(
+  fetchPageFunction: CursorPageFetcher<T, S>,
+  processFunction: (item: T, index: number, state: S, signal?: AbortSignal) => Promise<R>,
+  options: PaginatedBatchOptions<T, R, S> & { pagination: 'cursor' }
+): Promise<BatchResult<T, R, S>>;
+export async function processPaginatedBatches<T, R, S extends BaseState = State>(
+  fetchPageFunction: PageFetcher<T, S>,
+  processFunction: (item: T, index: number, state: S, signal?: AbortSignal) => Promise<R>,
+  options?: PaginatedBatchOptions<T, R, S> & { pagination?: 'page' }
+): Promise<BatchResult<T, R, S>>;
+export async function processPaginatedBatches<T, R, S extends BaseState = State>(
+  fetchPageFunction: CursorPageFetcher<T, S> | PageFetcher<T, S>,
+  processFunction: (item: T, index: number, state: S, signal?: AbortSignal) => Promise<R>,
+  options: PaginatedBatchOptions<T, R, S> = {}
+): Promise<BatchResult<T, R, S>> {
   const {
+    pagination = 'page',
     initialPage = 1,
+    initialCursor,
+    prefetch = 0,
     concurrencyLimit = 10,
     onPageStart = () => {},
     onPageComplete = () => {},
     onItemSuccess = () => {},
     onItemError = () => {},
+    onItemRetry = () => {},
+    onPageRetry = () => {},
+    onPageError = () => {},
     onStateUpdate = () => {},
     stateUpdateInterval = 5,
-    initialState = {}
+    initialState = {} as S,
+    retry = { maxAttempts: 1 },
+    pageRetry = { maxAttempts: 1 },
+    pageErrorPolicy = 'abort',
+    deadLetterQueue,
+    ledger,
+    signal: callerSignal,
+    abortTimeoutMs,
+    itemTimeoutMs,
+    deadline,
+    rateLimit,
+    adaptiveConcurrency,
+    failurePolicy,
+    waitUntilResumed,
+    getItemKey,
+    dedupeBy,
+    partitionBy,
+    logger = silentLogger
   } = options;
 
+  // Position-based keys would let a shifted page skip items that never ran
+  if (ledger && !getItemKey) {
+    throw new Error('A completion ledger needs getItemKey to give items stable keys');
+  }
+
+  // Reaching the deadline or exhausting the failure budget stops the run like an abort
+  const deadlineSignal = withDeadline(callerSignal, deadline);
+  const breaker = failurePolicy ? new CircuitBreaker(failurePolicy, deadlineSignal.signal, logger) : undefined;
+  const signal = breaker ? breaker.signal : deadlineSignal.signal;
+  const limiter = createRateLimiter(rateLimit);
+  const adaptive = createAdaptiveConcurrency(adaptiveConcurrency, concurrencyLimit, initialState, logger);
+  const fetchRetry = pageErrorPolicy === 'retry-forever' ? { ...pageRetry, maxAttempts: Infinity } : pageRetry;
+  const cursorMode = pagination === 'cursor';
+  // The overloads tie the type of the first argument to `pagination`
+  const fetchPage = fetchPageFunction as (
+    pageOrCursor: number | PageCursor | undefined,
+    state: S,
+    signal?: AbortSignal
+  ) => Promise<PageData<T>>;
+  const keyOf = (item: T, index: number) => (getItemKey ? getItemKey(item, index) : `${currentPage}:${index}`);
+  const seenKeys = new Set<string>();
+  const partitions = new PartitionQueue();
   let currentPage = initialState.currentPage || initialPage;
-  let totalPages = initialState.totalPages || 1;
+  let totalPages = initialState.totalPages || (cursorMode ? undefined : 1);
   let totalProcessed = initialState.totalProcessed || 0;
   let totalFailed = initialState.totalFailed || 0;
-  let currentState: State = { ...initialState, currentPage, totalPages, totalProcessed, totalFailed };
+  let totalRetries = initialState.totalRetries || 0;
+  let currentState: S = { ...initialState, currentPage, totalPages, totalProcessed, totalFailed, totalRetries };
+
+  // A null cursor means the last page has been processed
+  let cursor = initialState.cursor !== undefined ? initialState.cursor : initialCursor;
+  if (cursorMode) {
+    currentState = { ...currentState, cursor };
+  }
+  const hasMorePages = () => (cursorMode ? cursor !== null : currentPage <= (totalPages as number));
+  const advancePage = (pageData: PageData<T>) => {
+    currentPage++;
+    if (cursorMode) {
+      cursor = pageData.nextCursor ?? pageData.nextToken ?? null;
+      currentState = { ...currentState, currentPage, cursor };
+    } else {
+      currentState = { ...currentState, currentPage };
+    }
+  };
+
+  // Pages are fetched one after another, up to `prefetch` pages ahead of the
+  // page being processed. currentPage and the cursor in the state only move
+  // past a page once its items are processed.
+  async function* fetchPages(): AsyncGenerator<FetchedPage<T>> {
+    let page = currentPage;
+    let pageCursor = cursor;
+    let pageCount = totalPages;
+    while ((cursorMode ? pageCursor !== null : page <= (pageCount as number)) && !signal?.aborted) {
+      if (waitUntilResumed) {
+        await waitUntilResumed();
+        if (signal?.aborted) return;
+      }
+      const pageOrCursor = cursorMode ? pageCursor ?? undefined : page;
+      logger.debug(`Fetching page ${page}`, { event: 'page.fetch', page, ...(cursorMode ? { cursor: pageOrCursor } : {}) });
+      let attempts = 0;
+      try {
+        const pageData = await withRetry(
+          (attempt) => {
+            attempts = attempt;
+            return runLimited(limiter, () => fetchPage(pageOrCursor, currentState, signal), signal);
+          },
+          fetchRetry,
+          async (error, attempt, delayMs) => {
+            logger.warn(`Retrying page ${page}`, { event: 'page.retry', page, attempt, delayMs, error: error.message });
+            await onPageRetry(page, error, attempt, delayMs, currentState);
+          },
+          signal
+        );
+        page++;
+        pageCount = pageData.totalPages || pageCount;
+        pageCursor = pageData.nextCursor ?? pageData.nextToken ?? null;
+        yield { pageData, attempts };
+      } catch (error) {
+        if (signal?.aborted) return;
+        yield { error: error instanceof Error ? error : new Error(String(error)), attempts };
+        
+        // Without the next cursor there is no way to skip a page
+        if (pageErrorPolicy !== 'skip' || cursorMode) return;
+        page++;
+      }
+    }
+  }
+  const pages = readAhead(fetchPages(), prefetch);
+
+  let abandoned = false;
 
-  while (currentPage <= totalPages) {
+  while (hasMorePages() && !signal?.aborted) {
     // Fetch the current page of items
     await onPageStart(currentPage, totalPages, currentState);
-    const pageData = await fetchPageFunction(currentPage, currentState);
+    const next = await pages.next();
+    if (next.done || signal?.aborted) {
+      break;
+    }
+    
+    const { error: pageError, attempts: pageAttempts } = next.value;
+    if (pageError) {
+      const failure: PageFailure = {
+        page: currentPage,
+        ...(cursorMode && cursor !== undefined ? { cursor: cursor as PageCursor } : {}),
+        error: { name: pageError.name, message: pageError.message },
+        attempts: pageAttempts,
+        failedAt: new Date().toISOString()
+      };
+      logger.error(`Could not fetch page ${currentPage}`, {
+        event: 'page.error',
+        page: currentPage,
+        attempts: pageAttempts,
+        policy: pageErrorPolicy,
+        error: pageError.message
+      });
+      await onPageError(currentPage, pageError, pageAttempts, currentState);
+      
+      if (pageErrorPolicy === 'skip' && !cursorMode) {
+        currentState = { ...currentState, skippedPages: [...(currentState.skippedPages || []), failure] };
+        advancePage({});
+        await onStateUpdate(currentState);
+        continue;
+      }
+      
+      // Save the last good state before rejecting, so the run can be resumed from this page
+      currentState = {
+        ...currentState,
+        ...adaptive?.toState(),
+        totalProcessed,
+        totalFailed,
+        totalRetries,
+        lastPageError: failure,
+        lastUpdated: new Date().toISOString()
+      };
+      await onStateUpdate(currentState);
+      await pages.return(undefined);
+      deadlineSignal.clear();
+      breaker?.dispose();
+      throw pageError;
+    }
+    
+    const pageData = next.value.pageData as PageData<T>;
+    if (currentState.lastPageError) {
+      currentState = { ...currentState, lastPageError: undefined };
+    }
     
     // Update total pages if needed
     if (pageData.totalPages && pageData.totalPages !== totalPages) {
@@ -137,33 +689,114 @@ export async function processPaginatedBatches<T, R>(
       await onStateUpdate(currentState);
     }
 
-    const items = (pageData.items || pageData.results || []) as T[];
+    const items = pageData.items || pageData.results || [];
     if (items.length === 0) {
-      console.log(`No items found on page ${currentPage}.`);
-      currentPage++;
-      currentState = { ...currentState, currentPage };
+      logger.info(`No items found on page ${currentPage}`, { event: 'page.empty', page: currentPage });
+      advancePage(pageData);
       await onStateUpdate(currentState);
       continue;
     }
 
+    // Skip repeated keys with dedupeBy, and items the ledger has recorded as completed
+    let entries = items.map((item, index) => ({ item, index, key: keyOf(item, index) }));
+    if (dedupeBy) {
+      const unique = entries.filter(({ item }) => {
+        const dedupeKey = dedupeBy(item);
+        if (seenKeys.has(dedupeKey)) return false;
+        seenKeys.add(dedupeKey);
+        return true;
+      });
+      if (unique.length < entries.length) {
+        logger.debug(`Skipping ${entries.length - unique.length} duplicate items`, {
+          event: 'dedupe.skip',
+          page: currentPage,
+          count: entries.length - unique.length
+        });
+      }
+      entries = unique;
+    }
+    if (ledger) {
+      const completed = await Promise.all(entries.map(({ key }) => ledger.has(key)));
+      const skippedCount = completed.filter(Boolean).length;
+      if (skippedCount > 0) {
+        logger.debug(`Skipping ${skippedCount} items recorded in the ledger`, {
+          event: 'ledger.skip',
+          page: currentPage,
+          count: skippedCount
+        });
+      }
+      entries = entries.filter((entry, n) => !completed[n]);
+    }
+
     // Process the items on this page with concurrency
-    const limit = pLimit(concurrencyLimit);
+    const limit = pLimit(adaptive ? adaptive.getMax() : concurrencyLimit);
     let pageProcessed = 0;
     
-    await Promise.all(
-      items.map((item, index) => limit(async () => {
+    const pagePromise = Promise.all(
+      entries.map(({ item, index, key }) => partitions.run(partitionBy?.(item), () => limit(async () => {
+        // Don't schedule new items once aborted, and hold them back while the run is paused
+        if (signal?.aborted) return null;
+        if (waitUntilResumed) {
+          await waitUntilResumed();
+          if (signal?.aborted) return null;
+        }
+        
+        // The circuit breaker holds items back while it is open
+        const reportOutcome = breaker ? await breaker.enter() : () => {};
+        if (signal?.aborted) {
+          reportOutcome();
+          return null;
+        }
+        
+        let attempts = 0;
         try {
-          const result = await processFunction(item, index, currentState);
+          const result = await withRetry(
+            (attempt) => {
+              attempts = attempt;
+              return runLimited(
+                limiter,
+                () => runAdaptive(
+                  adaptive,
+                  () => runWithTimeout(
+                    (attemptSignal) => processFunction(item, index, currentState, attemptSignal),
+                    itemTimeoutMs,
+                    signal
+                  ),
+                  signal
+                ),
+                signal
+              );
+            },
+            retry,
+            async (error, attempt, delayMs) => {
+              totalRetries++;
+              logger.debug(`Retrying item ${key}`, {
+                event: 'item.retry',
+                key,
+                attempt,
+                delayMs,
+                error: error.message
+              });
+              await onItemRetry(item, error, attempt, delayMs, currentState);
+            },
+            signal
+          );
+          // Record the completion first, so the item is never run again once it succeeded
+          if (ledger) await recordCompletion(ledger, key);
+          reportOutcome(true);
+          if (abandoned) return null;
           totalProcessed++;
           pageProcessed++;
           await onItemSuccess(item, result, totalProcessed, currentState);
           
           // Update state periodically
-          if (pageProcessed % stateUpdateInterval === 0 || pageProcessed === items.length) {
+          if (pageProcessed % stateUpdateInterval === 0 || pageProcessed === entries.length) {
             currentState = {
               ...currentState,
+              ...adaptive?.toState(),
               totalProcessed,
               totalFailed,
+              totalRetries,
               lastUpdated: new Date().toISOString()
             };
             await onStateUpdate(currentState);
@@ -171,31 +804,158 @@ export async function processPaginatedBatches<T, R>(
           
           return result;
         } catch (error) {
+          // The item succeeded, so it must not be counted as failed
+          if (error instanceof LedgerWriteError) throw error;
+          
+          // Items interrupted by an abort are not counted as failed
+          if (abandoned || signal?.aborted) {
+            reportOutcome();
+            return null;
+          }
+          
+          const err = error instanceof Error ? error : new Error(String(error));
+          reportOutcome(false);
           totalFailed++;
-          await onItemError(item, error instanceof Error ? error : new Error(String(error)), totalFailed, currentState);
+          logger.warn(`Item ${key} failed`, {
+            event: 'item.failed',
+            key,
+            page: currentPage,
+            attempts,
+            error: err.message
+          });
+          if (deadLetterQueue) {
+            await deadLetterQueue.add(
+              createDeadLetterEntry(item, key, err, attempts, { page: currentPage })
+            );
+          }
+          await onItemError(item, err, totalFailed, currentState);
           return null;
         }
-      }))
+      })))
     );
+    abandoned = await waitForDrain(pagePromise, signal, abortTimeoutMs);
+
+    // Keep the current page when aborted so a resumed run fetches it again
+    if (signal?.aborted) {
+      currentState = {
+        ...currentState,
+        ...adaptive?.toState(),
+        totalProcessed,
+        totalFailed,
+        totalRetries,
+        lastUpdated: new Date().toISOString()
+      };
+      await onStateUpdate(currentState);
+      break;
+    }
 
     // Update state at the end of each page
-    currentPage++;
+    advancePage(pageData);
     currentState = {
       ...currentState,
-      currentPage,
+      ...adaptive?.toState(),
       totalProcessed,
       totalFailed,
+      totalRetries,
       lastUpdated: new Date().toISOString()
     };
     await onStateUpdate(currentState);
     
     // Notify page completion
+    logger.debug(`Completed page ${currentPage - 1}`, {
+      event: 'page.complete',
+      page: currentPage - 1,
+      totalPages,
+      pageProcessed,
+      totalProcessed
+    });
     await onPageComplete(currentPage - 1, totalPages, pageProcessed, totalProcessed, currentState);
   }
   
-  return {
+  // Stop prefetching once processing ends
+  await pages.return(undefined);
+  
+  deadlineSignal.clear();
+  return finishRun(logger, {
     processed: totalProcessed,
     failed: totalFailed,
-    state: currentState
+    state: currentState,
+    aborted: Boolean(signal?.aborted),
+    deadlineReached: deadlineSignal.deadlineReached()
+  }, abandoned, breaker);
+}
+
+/**
+ * Replay items from a dead-letter queue through processBatches. Items that
+ * succeed are removed from the queue; items that fail again stay in it with
+ * their attempt count and error updated.
+ * @param processFunction - Async function to process each item
+ * @param options - Configuration options, including the dead-letter queue to replay
+ * @returns Processing statistics for the replay
+ */
+export async function replayFailed<T, R, S extends BaseState = State>(
+  processFunction: (item: T, index: number, state: S, signal?: AbortSignal) => Promise<R>,
+  options: ReplayOptions<T, R, S>
+): Promise<BatchResult<T, R, S>> {
+  const {
+    deadLetterQueue,
+    onBatchStart,
+    onBatchComplete,
+    onItemSuccess,
+    onItemError,
+    onItemRetry,
+    onItemSettled,
+    dedupeBy,
+    partitionBy,
+    ...batchOptions
+  } = options;
+  const entries = await deadLetterQueue.getAll();
+  const remaining = new Map(entries.map(entry => [entry, entry]));
+  const attemptsThisRun = new Map<DeadLetterEntry<T>, number>();
+
+  // Items that succeeded are removed from the queue even if the replay rejects,
+  // so they are never replayed again
+  let result: BatchResult<DeadLetterEntry<T>, R, S>;
+  try {
+    result = await processBatches<DeadLetterEntry<T>, R, S>(
+      entries,
+      (entry, index, state, signal) => {
+        attemptsThisRun.set(entry, (attemptsThisRun.get(entry) || 0) + 1);
+        return processFunction(entry.item, index, state, signal);
+      },
+      {
+        ...batchOptions,
+        resume: false,
+        getItemKey: (entry) => entry.key,
+        dedupeBy: dedupeBy && ((entry) => dedupeBy(entry.item)),
+        partitionBy: partitionBy && ((entry) => partitionBy(entry.item)),
+        onBatchStart: (batchNumber, totalBatches, batch, state) =>
+          onBatchStart?.(batchNumber, totalBatches, batch.map(entry => entry.item), state),
+        onBatchComplete: (batchNumber, totalBatches, batch, totalProcessed, totalFailed, state) =>
+          onBatchComplete?.(batchNumber, totalBatches, batch.map(entry => entry.item), totalProcessed, totalFailed, state),
+        onItemSuccess: (entry, itemResult, totalProcessed, state) => {
+          remaining.delete(entry);
+          return onItemSuccess?.(entry.item, itemResult, totalProcessed, state);
+        },
+        onItemError: (entry, error, totalFailed, state) => {
+          const attempts = entry.attempts + (attemptsThisRun.get(entry) || 0);
+          remaining.set(entry, createDeadLetterEntry(entry.item, entry.key, error, attempts, {
+            batchNumber: entry.batchNumber,
+            page: entry.page
+          }));
+          return onItemError?.(entry.item, error, totalFailed, state);
+        },
+        onItemRetry: (entry, error, attempt, delayMs, state) =>
+          onItemRetry?.(entry.item, error, attempt, delayMs, state),
+        onItemSettled: (settledItem, state) =>
+          onItemSettled?.({ ...settledItem, item: settledItem.item.item }, state)
+      }
+    );
+  } finally {
+    await deadLetterQueue.replaceAll(Array.from(remaining.values()));
+  }
+  return {
+    ...result,
+    settled: result.settled && result.settled.map(settledItem => ({ ...settledItem, item: settledItem.item.item }))
   };
-} 
\ No newline at end of file
+}
@@ -0,0 +1,58 @@
+import { BatchInput } from '../types';
+
+/**
+ * Split an input into batches. Arrays are sliced; iterables, async iterables
+ * and Node object streams are pulled lazily one batch at a time, so a stream
+ * is only read as fast as its batches are processed.
+ * @param input - Items to split
+ * @param batchSize - Number of items per batch
+ */
+export async function* readBatches<T>(input: BatchInput<T>, batchSize: number): AsyncGenerator<T[]> {
+  if (Array.isArray(input)) {
+    for (let i = 0; i < input.length; i += batchSize) {
+      yield input.slice(i, i + batchSize);
+    }
+    return;
+  }
+
+  let batch: T[] = [];
+  for await (const item of input) {
+    batch.push(item);
+    if (batch.length >= batchSize) {
+      yield batch;
+      batch = [];
+    }
+  }
+  if (batch.length > 0) {
+    yield batch;
+  }
+}
+
+/**
+ * Pull values from an async generator up to `size` values ahead of the
+ * consumer. Values are still produced one after another and in order.
+ * @param source - Generator to read from
+ * @param size - Number of values to read ahead (0 reads lazily)
+ */
+export async function* readAhead<V>(source: AsyncGenerator<V>, size: number): AsyncGenerator<V> {
+  const buffer: Array<Promise<IteratorResult<V>>> = [];
+  const pull = () => {
+    const next = source.next();
+    // Errors surface when the consumer reaches the failed value
+    next.catch(() => {});
+    buffer.push(next);
+  };
+
+  try {
+    while (true) {
+      while (buffer.length <= size) {
+        pull();
+      }
+      const result = await (buffer.shift() as Promise<IteratorResult<V>>);
+      if (result.done) return;
+      yield result.value;
+    }
+  } finally {
+    await source.return(undefined);
+  }
+}
@@ -0,0 +1,235 @@
+import { PassThrough, Transform, TransformCallback } from 'stream';
+import { BaseState, BatchInput, BatchResult, BatchStreamOptions, SettledItem, State } from '../types';
+import { processBatches } from './batchProcessor';
+import { followSignal } from './abort';
+
+/**
+ * Bounded queue between processBatches and a consumer. Producers wait while
+ * the queue is full, which pauses processing until the consumer catches up.
+ */
+class SettledQueue<V> {
+  private buffer: V[] = [];
+  private closed = false;
+  private error: unknown;
+  private consumerWaiter?: () => void;
+  private producerWaiters: Array<() => void> = [];
+  private highWaterMark: number;
+
+  constructor(highWaterMark: number) {
+    this.highWaterMark = highWaterMark;
+  }
+
+  async push(value: V): Promise<void> {
+    while (this.buffer.length >= this.highWaterMark && !this.closed) {
+      await new Promise<void>(resolve => this.producerWaiters.push(resolve));
+    }
+    if (this.closed) return;
+
+    this.buffer.push(value);
+    this.wakeConsumer();
+  }
+
+  close(error?: unknown): void {
+    this.closed = true;
+    this.error = error;
+    this.wakeConsumer();
+    this.producerWaiters.splice(0).forEach(resolve => resolve());
+  }
+
+  async shift(): Promise<IteratorResult<V, undefined>> {
+    while (this.buffer.length === 0 && !this.closed) {
+      await new Promise<void>(resolve => {
+        this.consumerWaiter = resolve;
+      });
+    }
+
+    if (this.buffer.length > 0) {
+      const value = this.buffer.shift() as V;
+      this.producerWaiters.shift()?.();
+      return { value, done: false };
+    }
+    if (this.error) {
+      throw this.error;
+    }
+    return { value: undefined, done: true };
+  }
+
+  private wakeConsumer(): void {
+    const resolve = this.consumerWaiter;
+    this.consumerWaiter = undefined;
+    resolve?.();
+  }
+}
+
+/**
+ * Process items like processBatches and yield each item's outcome as it
+ * settles. Processing pauses while the consumer is not reading.
+ * @param items - Items to process: an array, an iterable, an async iterable or a Node object stream
+ * @param processFunction - Async function to process each item
+ * @param options - Configuration options
+ * @returns An async generator of settled items, returning the run statistics when done
+ */
+export async function* batchStream<T, R, S extends BaseState = State>(
+  items: BatchInput<T>,
+  processFunction: (item: T, index: number, state: S, signal?: AbortSignal) => Promise<R>,
+  options: BatchStreamOptions<T, R, S> = {}
+): AsyncGenerator<SettledItem<T, R>, BatchResult<T, R, S> | undefined> {
+  const { ordered = true, highWaterMark = options.batchSize || 20, ...batchOptions } = options;
+  const queue = new SettledQueue<SettledItem<T, R>>(highWaterMark);
+  const controller = new AbortController();
+  const unfollowSignal = followSignal(controller, batchOptions.signal);
+
+  let finished = false;
+
+  // In ordered mode, outcomes are held back until their batch completes. With
+  // sliding scheduling, later batches may already have settled some items.
+  const batchSize = options.batchSize || 20;
+  let pending: SettledItem<T, R>[] = [];
+  const flushPending = async (upToIndex = Infinity) => {
+    const flushed = pending.filter(settledItem => settledItem.index < upToIndex).sort((a, b) => a.index - b.index);
+    pending = pending.filter(settledItem => settledItem.index >= upToIndex);
+    for (const settledItem of flushed) {
+      await queue.push(settledItem);
+    }
+  };
+
+  const run = processBatches(items, processFunction, {
+    ...batchOptions,
+    signal: controller.signal,
+    onItemSettled: async (settledItem, state) => {
+      if (ordered) {
+        pending.push(settledItem);
+      } else {
+        await queue.push(settledItem);
+      }
+      await batchOptions.onItemSettled?.(settledItem, state);
+    },
+    onBatchComplete: async (batchNumber, totalBatches, batch, totalProcessed, totalFailed, state) => {
+      await flushPending(batchNumber * batchSize);
+      await batchOptions.onBatchComplete?.(batchNumber, totalBatches, batch, totalProcessed, totalFailed, state);
+    }
+  }).then(
+    async (result) => {
+      // An aborted batch never completes, so flush what it settled
+      await flushPending();
+      finished = true;
+      queue.close();
+      return result;
+    },
+    (error) => {
+      finished = true;
+      queue.close(error);
+      return undefined;
+    }
+  );
+
+  try {
+    while (true) {
+      const next = await queue.shift();
+      if (next.done) break;
+      yield next.value;
+    }
+    return await run;
+  } finally {
+    // Stop processing when the consumer stops reading early
+    if (!finished) {
+      controller.abort();
+      queue.close();
+    }
+    await run;
+    unfollowSignal();
+  }
+}
+
+/**
+ * Transform stream that processes written items like processBatches and
+ * emits each item's outcome. Processing pauses while the readable side is full.
+ */
+export class BatchTransform<T, R, S extends BaseState = State> extends Transform {
+  private processFunction: (item: T, index: number, state: S, signal?: AbortSignal) => Promise<R>;
+  private options: BatchStreamOptions<T, R, S>;
+  private input: PassThrough;
+  private pump?: Promise<void>;
+  private readWaiter?: () => void;
+  private controller = new AbortController();
+
+  /**
+   * Create a batch transform stream
+   * @param processFunction - Async function to process each item
+   * @param options - Configuration options
+   */
+  constructor(
+    processFunction: (item: T, index: number, state: S, signal?: AbortSignal) => Promise<R>,
+    options: BatchStreamOptions<T, R, S> = {}
+  ) {
+    super({ objectMode: true, highWaterMark: options.highWaterMark });
+    this.processFunction = processFunction;
+    this.options = options;
+    this.input = new PassThrough({ objectMode: true, highWaterMark: options.batchSize || 20 });
+    followSignal(this.controller, options.signal);
+  }
+
+  _transform(chunk: T, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.startPump();
+    if (this.input.write(chunk)) {
+      callback();
+    } else {
+      this.input.once('drain', () => callback());
+    }
+  }
+
+  _flush(callback: TransformCallback): void {
+    this.startPump();
+    this.input.end();
+    (this.pump as Promise<void>).then(() => callback());
+  }
+
+  _read(size: number): void {
+    super._read(size);
+    const resolve = this.readWaiter;
+    this.readWaiter = undefined;
+    resolve?.();
+  }
+
+  _destroy(error: Error | null, callback: (error: Error | null) => void): void {
+    this.controller.abort();
+    this.input.destroy();
+    const resolve = this.readWaiter;
+    this.readWaiter = undefined;
+    resolve?.();
+    callback(error);
+  }
+
+  private startPump(): void {
+    if (this.pump) return;
+
+    this.pump = (async () => {
+      const results = batchStream(this.input, this.processFunction, {
+        ...this.options,
+        signal: this.controller.signal
+      });
+      for await (const settledItem of results) {
+        if (this.destroyed) break;
+        if (!this.push(settledItem)) {
+          await new Promise<void>(resolve => {
+            this.readWaiter = resolve;
+          });
+        }
+      }
+    })().catch(error => {
+      this.destroy(error);
+    });
+  }
+}
+
+/**
+ * Create a Transform stream that processes items in batches
+ * @param processFunction - Async function to process each item
+ * @param options - Configuration options
+ */
+export function createBatchTransform<T, R, S extends BaseState = State>(
+  processFunction: (item: T, index: number, state: S, signal?: AbortSignal) => Promise<R>,
+  options: BatchStreamOptions<T, R, S> = {}
+): BatchTransform<T, R, S> {
+  return new BatchTransform(processFunction, options);
+}
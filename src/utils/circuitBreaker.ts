@@ -0,0 +1,185 @@
+import { FailureBudgetReason, FailurePolicyOptions, Logger } from '../types';
+import { followSignal } from './abort';
+import { silentLogger } from './logger';
+
+/**
+ * CircuitBreaker enforces a run's failure budget. Items pass through `enter`
+ * before they start and report their outcome when they settle. When the
+ * budget is exceeded the breaker either stops the run, by aborting its
+ * signal, or opens: it holds items back for a cool-down, then lets probe
+ * items through and closes again once they all succeed.
+ */
+export class CircuitBreaker {
+  /**
+   * Signal for the run; aborts when the caller's signal aborts or the breaker stops the run
+   */
+  readonly signal: AbortSignal;
+  private maxConsecutiveFailures: number;
+  private maxFailureRate: number;
+  private windowSize: number;
+  private coolDownMs?: number;
+  private probeItems: number;
+  private maxOpenings: number;
+  private logger: Logger;
+  private controller = new AbortController();
+  private unfollowSignal: () => void;
+  private status: 'closed' | 'open' | 'half-open' = 'closed';
+  private consecutiveFailures = 0;
+  private outcomes: boolean[] = [];
+  private openings = 0;
+  private probesInFlight = 0;
+  private probeSuccesses = 0;
+  private waiters: Array<() => void> = [];
+  private coolDownTimer?: NodeJS.Timeout;
+  private stopReason?: { reason: FailureBudgetReason; message: string };
+
+  /**
+   * Create a circuit breaker for a run
+   * @param options - Failure thresholds and circuit settings
+   * @param signal - The run's signal
+   * @param logger - Logger for circuit changes
+   */
+  constructor(options: FailurePolicyOptions, signal?: AbortSignal, logger: Logger = silentLogger) {
+    const { maxConsecutiveFailures = Infinity, maxFailureRate = 1, windowSize = 100, circuitBreaker } = options;
+    if (maxFailureRate < 0 || maxFailureRate > 1) {
+      throw new Error('maxFailureRate must be a fraction between 0 and 1');
+    }
+
+    this.maxConsecutiveFailures = maxConsecutiveFailures;
+    this.maxFailureRate = maxFailureRate;
+    this.windowSize = Math.max(1, windowSize);
+    this.coolDownMs = circuitBreaker?.coolDownMs;
+    this.probeItems = Math.max(1, circuitBreaker?.probeItems ?? 1);
+    this.maxOpenings = circuitBreaker?.maxOpenings ?? Infinity;
+    this.logger = logger;
+    this.unfollowSignal = followSignal(this.controller, signal);
+    this.signal = this.controller.signal;
+    this.signal.addEventListener('abort', () => this.wakeWaiters(), { once: true });
+  }
+
+  /**
+   * Wait until an item may start. While the circuit is open, items wait for
+   * the cool-down; while it is half-open, only the probe items start.
+   * @returns A function to call with the item's outcome once it settles (no argument if it was interrupted)
+   */
+  async enter(): Promise<(succeeded?: boolean) => void> {
+    while (!this.signal.aborted) {
+      if (this.status === 'closed') {
+        return (succeeded) => {
+          if (succeeded !== undefined) this.record(succeeded);
+        };
+      }
+      if (this.status === 'half-open' && this.probesInFlight < this.probeItems) {
+        this.probesInFlight++;
+        return (succeeded) => {
+          this.probesInFlight--;
+          if (succeeded !== undefined) this.recordProbe(succeeded);
+          this.wakeWaiters();
+        };
+      }
+      await new Promise<void>(resolve => this.waiters.push(resolve));
+    }
+    return () => {};
+  }
+
+  /**
+   * Stop the cool-down timer and stop following the run's signal
+   * @returns Why the breaker stopped the run, if it did
+   */
+  dispose(): { reason: FailureBudgetReason; message: string } | undefined {
+    if (this.coolDownTimer) clearTimeout(this.coolDownTimer);
+    this.unfollowSignal();
+    return this.stopReason;
+  }
+
+  /**
+   * Record the outcome of an item that ran while the circuit was closed
+   */
+  private record(succeeded: boolean): void {
+    // Items started before the circuit opened say nothing new
+    if (this.status !== 'closed') return;
+
+    this.consecutiveFailures = succeeded ? 0 : this.consecutiveFailures + 1;
+    this.outcomes.push(succeeded);
+    if (this.outcomes.length > this.windowSize) {
+      this.outcomes.shift();
+    }
+
+    if (this.consecutiveFailures >= this.maxConsecutiveFailures) {
+      this.trip('consecutiveFailures', `${this.consecutiveFailures} consecutive items failed`);
+      return;
+    }
+    if (this.outcomes.length >= this.windowSize) {
+      const failureRate = this.outcomes.filter(outcome => !outcome).length / this.outcomes.length;
+      if (failureRate > this.maxFailureRate) {
+        this.trip(
+          'failureRate',
+          `${Math.round(failureRate * 100)}% of the last ${this.outcomes.length} items failed`
+        );
+      }
+    }
+  }
+
+  /**
+   * Record the outcome of a probe item
+   */
+  private recordProbe(succeeded: boolean): void {
+    if (this.status !== 'half-open') return;
+
+    if (!succeeded) {
+      this.open('a probe item failed');
+      return;
+    }
+    this.probeSuccesses++;
+    if (this.probeSuccesses >= this.probeItems) {
+      this.status = 'closed';
+      this.consecutiveFailures = 0;
+      this.outcomes = [];
+      this.logger.info('Circuit closed', { event: 'circuit.close', openings: this.openings });
+      this.wakeWaiters();
+    }
+  }
+
+  /**
+   * Handle an exceeded budget: open the circuit if one is configured, otherwise stop the run
+   */
+  private trip(reason: FailureBudgetReason, message: string): void {
+    if (this.coolDownMs === undefined) {
+      this.stop(reason, `Failure budget exceeded: ${message}`);
+    } else {
+      this.open(message);
+    }
+  }
+
+  private open(message: string): void {
+    this.openings++;
+    if (this.openings > this.maxOpenings) {
+      this.stop('circuitOpenings', `Failure budget exceeded: circuit opened ${this.maxOpenings} times (${message})`);
+      return;
+    }
+
+    this.status = 'open';
+    this.probeSuccesses = 0;
+    this.logger.warn(`Circuit opened: ${message}`, {
+      event: 'circuit.open',
+      openings: this.openings,
+      coolDownMs: this.coolDownMs
+    });
+    this.coolDownTimer = setTimeout(() => {
+      this.status = 'half-open';
+      this.logger.info('Circuit half-open, sending probe items', { event: 'circuit.halfOpen', probeItems: this.probeItems });
+      this.wakeWaiters();
+    }, this.coolDownMs);
+  }
+
+  private stop(reason: FailureBudgetReason, message: string): void {
+    if (this.stopReason) return;
+    this.stopReason = { reason, message };
+    this.logger.error(message, { event: 'run.failureBudget', reason });
+    this.controller.abort();
+  }
+
+  private wakeWaiters(): void {
+    this.waiters.splice(0).forEach(resolve => resolve());
+  }
+}
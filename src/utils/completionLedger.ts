@@ -0,0 +1,178 @@
+import fs from 'fs';
+import path from 'path';
+import { CompletionLedgerEntry, CompletionStore, Logger } from '../types';
+import { silentLogger } from './logger';
+
+/**
+ * CompletionLedger records the key of every completed item in an append-only
+ * JSONL file. Each record is synced to disk before it resolves, so an item
+ * that completed is never processed again, even if the process dies before
+ * the next state save.
+ */
+export class CompletionLedger implements CompletionStore {
+  private filePath: string;
+  private logger: Logger;
+  private keys?: Promise<Set<string>>;
+  private writes: Promise<void> = Promise.resolve();
+
+  /**
+   * Create a completion ledger instance
+   * @param filePath - Path to the JSONL file holding completed keys
+   * @param options - Optional logger
+   */
+  constructor(filePath: string, options: { logger?: Logger } = {}) {
+    this.filePath = filePath;
+    this.logger = options.logger || silentLogger;
+
+    // Ensure the directory exists
+    const directory = path.dirname(this.filePath);
+    if (!fs.existsSync(directory)) {
+      fs.mkdirSync(directory, { recursive: true });
+    }
+  }
+
+  /**
+   * Get the path of the ledger file that sits next to a state file
+   * @param stateFilePath - Path of the state file
+   */
+  static pathForStateFile(stateFilePath: string): string {
+    const parsed = path.parse(stateFilePath);
+    return path.join(parsed.dir, `${parsed.name}.ledger.jsonl`);
+  }
+
+  /**
+   * Get the path of the ledger file
+   */
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * Check whether an item has been recorded as completed
+   * @param key - Key of the item
+   */
+  async has(key: string): Promise<boolean> {
+    const keys = await this.loadKeys();
+    return keys.has(key);
+  }
+
+  /**
+   * Record an item as completed. Resolves once the entry is on disk.
+   * @param key - Key of the item
+   */
+  async record(key: string): Promise<void> {
+    const keys = await this.loadKeys();
+    if (keys.has(key)) {
+      return;
+    }
+
+    const entry: CompletionLedgerEntry = { key, completedAt: new Date().toISOString() };
+    // Appends are written one at a time so concurrent records never interleave
+    const write = this.writes.then(() => this.append(`${JSON.stringify(entry)}\n`));
+    this.writes = write.catch(() => {});
+    await write;
+    keys.add(key);
+  }
+
+  /**
+   * Read all entries in the ledger
+   * @returns The entries, skipping lines that cannot be parsed
+   */
+  async getAll(): Promise<CompletionLedgerEntry[]> {
+    let data: string;
+    try {
+      data = await fs.promises.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const entries: CompletionLedgerEntry[] = [];
+    for (const line of data.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch (parseError) {
+        // A torn last line is removed on first load; anything else unreadable is skipped
+        this.logger.warn(`Skipping invalid ledger entry in ${this.filePath}`, {
+          event: 'ledger.invalidEntry',
+          path: this.filePath
+        });
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Get the number of completed items in the ledger
+   */
+  async count(): Promise<number> {
+    const keys = await this.loadKeys();
+    return keys.size;
+  }
+
+  /**
+   * Remove all entries from the ledger
+   */
+  async clear(): Promise<void> {
+    await this.writes;
+    await fs.promises.unlink(this.filePath).catch((error: NodeJS.ErrnoException) => {
+      if (error.code !== 'ENOENT') throw error;
+    });
+    this.keys = Promise.resolve(new Set());
+  }
+
+  /**
+   * Load the recorded keys once and keep them in memory
+   */
+  private loadKeys(): Promise<Set<string>> {
+    if (!this.keys) {
+      const keys = this.removeTornEntry()
+        .then(() => this.getAll())
+        .then(entries => new Set(entries.map(entry => entry.key)));
+      // A failed read is tried again on the next call
+      keys.catch(() => {
+        if (this.keys === keys) this.keys = undefined;
+      });
+      this.keys = keys;
+    }
+    return this.keys;
+  }
+
+  /**
+   * Cut off a last line that a crash left without its newline, so the next
+   * entry doesn't get appended onto it. Its record never resolved.
+   */
+  private async removeTornEntry(): Promise<void> {
+    let data: Buffer;
+    try {
+      data = await fs.promises.readFile(this.filePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+
+    if (data.length === 0 || data[data.length - 1] === 0x0a) {
+      return;
+    }
+    this.logger.warn(`Removing an incomplete entry at the end of ${this.filePath}`, {
+      event: 'ledger.tornEntry',
+      path: this.filePath
+    });
+    await fs.promises.truncate(this.filePath, data.lastIndexOf(0x0a) + 1);
+  }
+
+  private async append(line: string): Promise<void> {
+    const handle = await fs.promises.open(this.filePath, 'a');
+    try {
+      await handle.appendFile(line, 'utf8');
+      await handle.datasync();
+    } finally {
+      await handle.close();
+    }
+  }
+}
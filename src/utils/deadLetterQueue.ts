@@ -0,0 +1,167 @@
+import fs from 'fs';
+import path from 'path';
+import { DeadLetterEntry, Logger } from '../types';
+import { silentLogger } from './logger';
+import { writeFileAtomic } from './atomicWrite';
+
+/**
+ * DeadLetterQueue persists permanently failed items to a JSONL file so they
+ * can be inspected and replayed later
+ */
+export class DeadLetterQueue<T = any> {
+  private filePath: string;
+  private logger: Logger;
+
+  /**
+   * Create a dead-letter queue instance
+   * @param filePath - Path to the JSONL file holding failed items
+   * @param options - Optional logger
+   */
+  constructor(filePath: string, options: { logger?: Logger } = {}) {
+    this.filePath = filePath;
+    this.logger = options.logger || silentLogger;
+
+    // Ensure the directory exists
+    const directory = path.dirname(this.filePath);
+    if (!fs.existsSync(directory)) {
+      fs.mkdirSync(directory, { recursive: true });
+    }
+  }
+
+  /**
+   * Get the path of the dead-letter file that sits next to a state file
+   * @param stateFilePath - Path of the state file
+   */
+  static pathForStateFile(stateFilePath: string): string {
+    const parsed = path.parse(stateFilePath);
+    return path.join(parsed.dir, `${parsed.name}.dead-letter.jsonl`);
+  }
+
+  /**
+   * Get the path of the dead-letter file
+   */
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * Append a failed item to the queue
+   * @param entry - The dead-letter entry to append
+   */
+  async add(entry: DeadLetterEntry<T>): Promise<void> {
+    return new Promise((resolve, reject) => {
+      fs.appendFile(this.filePath, `${JSON.stringify(entry)}\n`, 'utf8', (err) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
+  /**
+   * Read all entries in the queue
+   * @returns The entries, skipping lines that cannot be parsed
+   */
+  async getAll(): Promise<DeadLetterEntry<T>[]> {
+    return new Promise((resolve, reject) => {
+      if (!fs.existsSync(this.filePath)) {
+        resolve([]);
+        return;
+      }
+
+      fs.readFile(this.filePath, 'utf8', (err, data) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+
+        const entries: DeadLetterEntry<T>[] = [];
+        for (const line of data.split('\n')) {
+          if (!line.trim()) continue;
+          try {
+            entries.push(JSON.parse(line));
+          } catch (parseError) {
+            this.logger.warn(`Skipping invalid dead-letter entry in ${this.filePath}`, {
+              event: 'deadLetter.invalidEntry',
+              path: this.filePath
+            });
+          }
+        }
+        resolve(entries);
+      });
+    });
+  }
+
+  /**
+   * Replace the contents of the queue
+   * @param entries - Entries to keep
+   */
+  async replaceAll(entries: DeadLetterEntry<T>[]): Promise<void> {
+    if (entries.length === 0) {
+      return this.clear();
+    }
+
+    // Written to a temp file first, so a crash can't leave the queue half written
+    const data = entries.map(entry => JSON.stringify(entry)).join('\n') + '\n';
+    await writeFileAtomic(this.filePath, data);
+  }
+
+  /**
+   * Get the number of entries in the queue
+   */
+  async count(): Promise<number> {
+    const entries = await this.getAll();
+    return entries.length;
+  }
+
+  /**
+   * Remove all entries from the queue
+   */
+  async clear(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!fs.existsSync(this.filePath)) {
+        resolve();
+        return;
+      }
+
+      fs.unlink(this.filePath, (err) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+}
+
+/**
+ * Build a dead-letter entry for a failed item
+ * @param item - The item that failed
+ * @param key - Key of the item
+ * @param error - The final error
+ * @param attempts - Number of attempts made
+ * @param location - Batch or page the item belonged to
+ */
+export function createDeadLetterEntry<T>(
+  item: T,
+  key: string,
+  error: Error,
+  attempts: number,
+  location: { batchNumber?: number; page?: number } = {}
+): DeadLetterEntry<T> {
+  return {
+    key,
+    item,
+    error: {
+      name: error.name,
+      message: error.message,
+      stack: error.stack
+    },
+    attempts,
+    ...location,
+    failedAt: new Date().toISOString()
+  };
+}
@@ -0,0 +1,163 @@
+import fs from 'fs';
+import os from 'os';
+import { LockHolder, Logger, StateLock } from '../types';
+import { JobLockedError } from '../errors';
+import { silentLogger } from './logger';
+
+/**
+ * Acquire an advisory lock file. The file records the holder's PID and
+ * hostname and a heartbeat timestamp that is refreshed while the lock is held.
+ * A lock whose heartbeat is older than `staleMs`, or whose process is gone,
+ * is taken over. When a heartbeat finds the lock taken over, the heartbeat
+ * stops and the lock's signal aborts.
+ * @param lockPath - Path of the lock file
+ * @param options - Stale timeout and heartbeat interval in milliseconds, and a logger
+ * @returns The acquired lock
+ */
+export async function acquireFileLock(
+  lockPath: string,
+  options: { staleMs?: number; heartbeatMs?: number; logger?: Logger } = {}
+): Promise<StateLock> {
+  const { staleMs = 30000, heartbeatMs = Math.max(1000, Math.floor(staleMs / 3)), logger = silentLogger } = options;
+  const now = new Date().toISOString();
+  const holder: LockHolder = { pid: process.pid, hostname: os.hostname(), acquiredAt: now, heartbeatAt: now };
+
+  if (!(await createLockFile(lockPath, holder))) {
+    const current = await readLockFile(lockPath);
+    if (current && !isStale(current, staleMs)) {
+      throw new JobLockedError(
+        `Job is locked by process ${current.pid} on ${current.hostname} (last heartbeat ${current.heartbeatAt})`,
+        current
+      );
+    }
+
+    // A lock file that can't be read may still be being written
+    if (!current && !(await isFileOlderThan(lockPath, staleMs))) {
+      throw new JobLockedError(`Job is locked (lock file ${lockPath} is being written)`);
+    }
+
+    // Take over the stale lock; if another runner wins the race, it holds the lock
+    logger.warn(`Taking over stale lock ${lockPath}`, { event: 'lock.takeover', path: lockPath, holder: current });
+    await fs.promises.unlink(lockPath).catch(() => {});
+    if (!(await createLockFile(lockPath, holder))) {
+      const winner = await readLockFile(lockPath);
+      throw new JobLockedError('Job lock was taken over by another runner', winner);
+    }
+  }
+
+  const controller = new AbortController();
+  let released = false;
+  let pendingHeartbeat: Promise<void> = Promise.resolve();
+
+  // Refresh the heartbeat, unless a runner that found us stale has taken the lock over
+  const refresh = async () => {
+    if (released || controller.signal.aborted) return;
+    const current = await readLockFile(lockPath);
+    if (!isHeldBy(current, holder)) {
+      clearInterval(heartbeat);
+      logger.error(`Lost lock ${lockPath} to another runner`, { event: 'lock.lost', path: lockPath, holder: current });
+      controller.abort(new JobLockedError('Job lock was taken over by another runner', current));
+      return;
+    }
+
+    holder.heartbeatAt = new Date().toISOString();
+    const tempPath = `${lockPath}.${process.pid}.tmp`;
+    await fs.promises
+      .writeFile(tempPath, JSON.stringify(holder), 'utf8')
+      .then(() => fs.promises.rename(tempPath, lockPath))
+      .catch(() => {});
+  };
+  const heartbeat = setInterval(() => {
+    pendingHeartbeat = pendingHeartbeat.then(refresh);
+  }, heartbeatMs);
+  heartbeat.unref();
+  logger.debug(`Acquired lock ${lockPath}`, { event: 'lock.acquire', path: lockPath });
+
+  return {
+    signal: controller.signal,
+    release: async () => {
+      released = true;
+      clearInterval(heartbeat);
+
+      // A heartbeat write that is still running would re-create the file after the unlink
+      await pendingHeartbeat;
+
+      // Only remove the lock if it is still ours
+      const current = await readLockFile(lockPath);
+      if (isHeldBy(current, holder)) {
+        await fs.promises.unlink(lockPath).catch(() => {});
+      }
+    }
+  };
+}
+
+/**
+ * Check whether a lock file still records the given holder
+ */
+function isHeldBy(current: LockHolder | undefined, holder: LockHolder): boolean {
+  return Boolean(
+    current &&
+    current.pid === holder.pid &&
+    current.hostname === holder.hostname &&
+    current.acquiredAt === holder.acquiredAt
+  );
+}
+
+/**
+ * Create the lock file if it doesn't exist
+ * @returns Whether the file was created
+ */
+async function createLockFile(lockPath: string, holder: LockHolder): Promise<boolean> {
+  try {
+    await fs.promises.writeFile(lockPath, JSON.stringify(holder), { encoding: 'utf8', flag: 'wx' });
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Read a lock file
+ * @returns The lock holder, or undefined if the file is missing or unreadable
+ */
+async function readLockFile(lockPath: string): Promise<LockHolder | undefined> {
+  try {
+    return JSON.parse(await fs.promises.readFile(lockPath, 'utf8'));
+  } catch (error) {
+    return undefined;
+  }
+}
+
+/**
+ * Check whether a file was last modified more than `ms` milliseconds ago
+ */
+async function isFileOlderThan(filePath: string, ms: number): Promise<boolean> {
+  try {
+    const stats = await fs.promises.stat(filePath);
+    return Date.now() - stats.mtimeMs > ms;
+  } catch (error) {
+    return true;
+  }
+}
+
+/**
+ * Check whether a lock holder has stopped sending heartbeats or no longer runs
+ */
+function isStale(holder: LockHolder, staleMs: number): boolean {
+  if (Date.now() - new Date(holder.heartbeatAt).getTime() > staleMs) {
+    return true;
+  }
+
+  // On the same host, a dead process can be detected right away
+  if (holder.hostname === os.hostname()) {
+    try {
+      process.kill(holder.pid, 0);
+    } catch (error) {
+      return (error as NodeJS.ErrnoException).code === 'ESRCH';
+    }
+  }
+  return false;
+}
@@ -0,0 +1,29 @@
+import { Logger } from '../types';
+
+const noop = () => {};
+
+/**
+ * Logger that discards everything. Used when no logger is given.
+ */
+export const silentLogger: Logger = {
+  debug: noop,
+  info: noop,
+  warn: noop,
+  error: noop
+};
+
+/**
+ * Logger that writes to the console, with the structured fields as a second argument
+ * @param minLevel - Lowest level to write
+ */
+export function createConsoleLogger(minLevel: 'debug' | 'info' | 'warn' | 'error' = 'info'): Logger {
+  const levels = ['debug', 'info', 'warn', 'error'] as const;
+  const enabled = (level: typeof levels[number]) => levels.indexOf(level) >= levels.indexOf(minLevel);
+
+  return {
+    debug: enabled('debug') ? (message, fields) => console.debug(message, fields ?? '') : noop,
+    info: enabled('info') ? (message, fields) => console.info(message, fields ?? '') : noop,
+    warn: enabled('warn') ? (message, fields) => console.warn(message, fields ?? '') : noop,
+    error: enabled('error') ? (message, fields) => console.error(message, fields ?? '') : noop
+  };
+}
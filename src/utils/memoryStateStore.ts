@@ -0,0 +1,61 @@
+import { BaseState, State, StateLock, StateStore } from '../types';
+import { JobLockedError } from '../errors';
+
+/**
+ * MemoryStateStore keeps processing state in memory. Useful for tests and for
+ * jobs that don't need to survive a restart.
+ */
+export class MemoryStateStore<S extends BaseState = State> implements StateStore<S> {
+  private data?: string;
+  private locked = false;
+  
+  /**
+   * Create an in-memory state store
+   * @param initialState - Optional state to start with
+   */
+  constructor(initialState?: S) {
+    if (initialState) {
+      this.data = JSON.stringify(initialState);
+    }
+  }
+  
+  /**
+   * Save a copy of the state
+   * @param state - The state object to save
+   */
+  async saveState(state: S): Promise<void> {
+    this.data = JSON.stringify(state);
+  }
+  
+  /**
+   * Load a copy of the saved state
+   * @returns The saved state or an empty object if nothing was saved
+   */
+  async loadState(): Promise<S> {
+    return this.data ? JSON.parse(this.data) : ({} as S);
+  }
+  
+  /**
+   * Clear saved state
+   */
+  async clearState(): Promise<void> {
+    this.data = undefined;
+  }
+  
+  /**
+   * Lock the store so only one run uses it at a time
+   * @returns A lock to release when the run is done
+   */
+  async lock(): Promise<StateLock> {
+    if (this.locked) {
+      throw new JobLockedError('State store is already locked by another run');
+    }
+    this.locked = true;
+    
+    return {
+      release: async () => {
+        this.locked = false;
+      }
+    };
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * PartitionQueue runs functions that share a partition key one after another,
+ * in the order they were queued. Functions with different keys run independently.
+ */
+export class PartitionQueue {
+  private tails = new Map<string, Promise<void>>();
+  private waiting = 0;
+
+  /**
+   * Number of functions waiting for an earlier function of their partition
+   */
+  get waitingCount(): number {
+    return this.waiting;
+  }
+
+  /**
+   * Run a function once every function queued before it with the same key has settled
+   * @param key - Partition key; functions without a key start right away
+   * @param fn - Function to run
+   */
+  run<R>(key: string | undefined, fn: () => Promise<R>): Promise<R> {
+    if (key === undefined) {
+      return fn();
+    }
+
+    const previous = this.tails.get(key) || Promise.resolve();
+    this.waiting++;
+    const result = previous.then(() => {
+      this.waiting--;
+      return fn();
+    });
+    // The next function waits for this one to settle, whether or not it failed
+    const tail = result.then(() => {}, () => {});
+    this.tails.set(key, tail);
+    tail.then(() => {
+      if (this.tails.get(key) === tail) {
+        this.tails.delete(key);
+      }
+    });
+    return result;
+  }
+}
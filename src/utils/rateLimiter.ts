@@ -0,0 +1,108 @@
+import { RateLimitOptions } from '../types';
+import { RetryAfterError } from '../errors';
+import { delay } from './retry';
+
+/**
+ * RateLimiter is a token bucket that limits how many requests start per
+ * interval. It can also be paused, e.g. when a server responds with `Retry-After`.
+ */
+export class RateLimiter {
+  private tokens: number;
+  private intervalMs: number;
+  private capacity: number;
+  private available: number;
+  private lastRefill: number;
+  private pausedUntil = 0;
+  private queue: Promise<void> = Promise.resolve();
+  private getRetryAfterMs: (error: unknown) => number | undefined;
+
+  /**
+   * Create a rate limiter instance
+   * @param options - Tokens per interval, interval length and burst capacity
+   */
+  constructor(options: RateLimitOptions) {
+    const {
+      tokens,
+      intervalMs,
+      burst = tokens,
+      getRetryAfterMs = (error) => (error instanceof RetryAfterError ? error.retryAfterMs : undefined)
+    } = options;
+
+    if (tokens <= 0 || intervalMs <= 0) {
+      throw new Error('Rate limit tokens and intervalMs must be greater than 0');
+    }
+
+    this.tokens = tokens;
+    this.intervalMs = intervalMs;
+    this.capacity = Math.max(1, burst);
+    this.available = this.capacity;
+    this.lastRefill = Date.now();
+    this.getRetryAfterMs = getRetryAfterMs;
+  }
+
+  /**
+   * Wait until a token is available and take it. Waiters are served in order.
+   * @param signal - Optional abort signal that ends the wait early
+   */
+  acquire(signal?: AbortSignal): Promise<void> {
+    const next = this.queue.then(() => this.take(signal));
+    this.queue = next.catch(() => {});
+    return next;
+  }
+
+  /**
+   * Pause all requests for the given duration
+   * @param ms - Pause duration in milliseconds
+   */
+  pauseFor(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  /**
+   * Run a function once a token is available. If it fails with an error that
+   * carries a retry-after delay, the limiter pauses for that long.
+   * @param fn - Function to run
+   * @param signal - Optional abort signal that ends the wait early
+   */
+  async run<R>(fn: () => Promise<R>, signal?: AbortSignal): Promise<R> {
+    await this.acquire(signal);
+    if (signal?.aborted) {
+      throw new Error('Aborted while waiting for the rate limit');
+    }
+    
+    try {
+      return await fn();
+    } catch (error) {
+      const retryAfterMs = this.getRetryAfterMs(error);
+      if (retryAfterMs !== undefined && retryAfterMs > 0) {
+        this.pauseFor(retryAfterMs);
+      }
+      throw error;
+    }
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = now - this.lastRefill;
+    this.available = Math.min(this.capacity, this.available + (elapsed * this.tokens) / this.intervalMs);
+    this.lastRefill = now;
+  }
+
+  private async take(signal?: AbortSignal): Promise<void> {
+    while (!signal?.aborted) {
+      const pausedFor = this.pausedUntil - Date.now();
+      if (pausedFor > 0) {
+        await delay(pausedFor, signal);
+        continue;
+      }
+
+      this.refill();
+      if (this.available >= 1) {
+        this.available -= 1;
+        return;
+      }
+
+      await delay(Math.ceil(((1 - this.available) * this.intervalMs) / this.tokens), signal);
+    }
+  }
+}
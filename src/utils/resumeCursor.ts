@@ -0,0 +1,120 @@
+import crypto from 'crypto';
+import { State } from '../types';
+
+/**
+ * ResumeCursor tracks which items of an input list have completed so that a
+ * restarted run can skip them. Completion is stored as a contiguous offset
+ * (`nextItemIndex`) plus the keys of items that finished out of order. Failed
+ * items don't hold the offset back: their keys are kept in `failedItemKeys`
+ * so a restarted run tries them again.
+ */
+export class ResumeCursor {
+  private nextItemIndex: number;
+  private completedKeys: Set<string>;
+  private failedKeys: Set<string>;
+  private pending: Map<number, string> = new Map();
+  private cachedState?: Pick<State, 'nextItemIndex' | 'completedItemKeys' | 'failedItemKeys'>;
+
+  /**
+   * Create a cursor from a previously saved state
+   * @param state - Saved state (an empty object starts from the beginning)
+   */
+  constructor(state: State = {}) {
+    this.nextItemIndex = state.nextItemIndex || 0;
+    this.completedKeys = new Set(state.completedItemKeys || []);
+    this.failedKeys = new Set(state.failedItemKeys || []);
+  }
+
+  /**
+   * Check whether an item was completed by a previous run
+   * @param index - Position of the item in the input
+   * @param key - Key of the item
+   */
+  isCompleted(index: number, key: string): boolean {
+    if (index < this.nextItemIndex) {
+      return !this.failedKeys.has(key);
+    }
+    return this.completedKeys.has(key);
+  }
+
+  /**
+   * Record an item as completed and advance the cursor where possible
+   * @param index - Position of the item in the input
+   * @param key - Key of the item
+   */
+  markCompleted(index: number, key: string): void {
+    // A failed item from a previous run that now succeeded
+    if (this.failedKeys.delete(key)) {
+      this.cachedState = undefined;
+    }
+    this.settle(index, key, true);
+  }
+
+  /**
+   * Record an item as failed. The cursor moves past it, but a restarted run tries it again.
+   * @param index - Position of the item in the input
+   * @param key - Key of the item
+   */
+  markFailed(index: number, key: string): void {
+    if (!this.failedKeys.has(key)) {
+      this.failedKeys.add(key);
+      this.cachedState = undefined;
+    }
+    this.settle(index, key, false);
+  }
+
+  /**
+   * Get the cursor fields to merge into the saved state
+   */
+  toState(): Pick<State, 'nextItemIndex' | 'completedItemKeys' | 'failedItemKeys'> {
+    // The arrays are only rebuilt after a change, since states are saved far more often
+    if (!this.cachedState) {
+      this.cachedState = {
+        nextItemIndex: this.nextItemIndex,
+        completedItemKeys: Array.from(this.completedKeys),
+        failedItemKeys: Array.from(this.failedKeys)
+      };
+    }
+    return this.cachedState;
+  }
+
+  /**
+   * Move the cursor past a completed or failed item once every item before it has settled
+   */
+  private settle(index: number, key: string, completed: boolean): void {
+    if (index < this.nextItemIndex) return;
+    this.cachedState = undefined;
+    if (index > this.nextItemIndex) {
+      this.pending.set(index, key);
+      if (completed) this.completedKeys.add(key);
+      return;
+    }
+
+    this.completedKeys.delete(key);
+    this.nextItemIndex++;
+    while (this.pending.has(this.nextItemIndex)) {
+      this.completedKeys.delete(this.pending.get(this.nextItemIndex) as string);
+      this.pending.delete(this.nextItemIndex);
+      this.nextItemIndex++;
+    }
+  }
+}
+
+/**
+ * Compute a fingerprint of an input list, used to detect that the input has
+ * changed between a checkpoint and a resumed run
+ * @param items - Items to fingerprint
+ * @param getItemKey - Optional function returning a stable key for each item
+ */
+export function computeInputFingerprint<T>(
+  items: T[],
+  getItemKey?: (item: T, index: number) => string
+): string {
+  const hash = crypto.createHash('sha256');
+  hash.update(`${items.length}\n`);
+  items.forEach((item, index) => {
+    const key = getItemKey ? getItemKey(item, index) : JSON.stringify(item);
+    hash.update(`${key === undefined ? String(item) : key}\n`);
+  });
+  return hash.digest('hex');
+}
@@ -0,0 +1,90 @@
+import { RetryOptions } from '../types';
+
+/**
+ * Wait for the given number of milliseconds
+ * @param ms - Delay in milliseconds
+ * @param signal - Optional abort signal that ends the wait early
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Compute the delay before the next attempt
+ * @param options - Retry options
+ * @param attempt - The attempt that just failed (1-based)
+ * @param previousDelay - Delay used before the failed attempt (for decorrelated jitter)
+ * @returns Delay in milliseconds
+ */
+export function computeBackoffDelay(options: RetryOptions, attempt: number, previousDelay = 0): number {
+  const { backoff = 'exponential', baseDelayMs = 100, maxDelayMs = 30000 } = options;
+  let delayMs: number;
+
+  switch (backoff) {
+    case 'fixed':
+      delayMs = baseDelayMs;
+      break;
+    case 'decorrelated-jitter': {
+      const upper = Math.max(baseDelayMs, previousDelay * 3);
+      delayMs = baseDelayMs + Math.random() * (upper - baseDelayMs);
+      break;
+    }
+    case 'exponential':
+    default:
+      delayMs = baseDelayMs * Math.pow(2, attempt - 1);
+      break;
+  }
+
+  return Math.min(delayMs, maxDelayMs);
+}
+
+/**
+ * Run a function, retrying it according to a retry policy
+ * @param fn - Function to run, receives the current attempt (1-based)
+ * @param options - Retry options
+ * @param onRetry - Called before each retry with the error, failed attempt and delay
+ * @param signal - Optional abort signal; no further attempts are made once it aborts
+ * @returns The value returned by the first successful attempt
+ */
+export async function withRetry<R>(
+  fn: (attempt: number) => Promise<R>,
+  options: RetryOptions = {},
+  onRetry: (error: Error, attempt: number, delayMs: number) => Promise<void> | void = () => {},
+  signal?: AbortSignal
+): Promise<R> {
+  const { maxAttempts = 3, isRetryable = () => true } = options;
+  let previousDelay = 0;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      if (attempt >= maxAttempts || signal?.aborted || !isRetryable(err, attempt)) {
+        throw err;
+      }
+
+      const delayMs = computeBackoffDelay(options, attempt, previousDelay);
+      previousDelay = delayMs;
+      await onRetry(err, attempt, delayMs);
+      await delay(delayMs, signal);
+      if (signal?.aborted) {
+        throw err;
+      }
+    }
+  }
+}
@@ -0,0 +1,122 @@
+import fs from 'fs';
+import path from 'path';
+import { BaseState, Logger, State, StateStore } from '../types';
+import { silentLogger } from './logger';
+import { InvalidStateError } from '../errors';
+
+/**
+ * The subset of the better-sqlite3 API used by SqliteStateStore
+ */
+interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): {
+    run(...params: unknown[]): unknown;
+    get(...params: unknown[]): unknown;
+  };
+  close(): unknown;
+}
+
+/**
+ * SqliteStateStore saves processing state in a SQLite database file. Several
+ * jobs can share one database by using different keys.
+ *
+ * Requires the optional `better-sqlite3` package.
+ */
+export class SqliteStateStore<S extends BaseState = State> implements StateStore<S> {
+  private db: SqliteDatabase;
+  private table: string;
+  private key: string;
+  private logger: Logger;
+
+  /**
+   * Create a SQLite state store
+   * @param databaseFilePath - Path to the SQLite database file
+   * @param options - Table name and key of the state row, and a logger
+   */
+  constructor(databaseFilePath: string, options: { table?: string; key?: string; logger?: Logger } = {}) {
+    const { table = 'batch_state', key = 'default', logger = silentLogger } = options;
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+      throw new Error(`Invalid SQLite table name: ${table}`);
+    }
+    this.table = table;
+    this.key = key;
+    this.logger = logger;
+
+    // Ensure the directory exists
+    const directory = path.dirname(databaseFilePath);
+    if (!fs.existsSync(directory)) {
+      fs.mkdirSync(directory, { recursive: true });
+    }
+
+    this.db = openDatabase(databaseFilePath);
+    this.db.exec(
+      `CREATE TABLE IF NOT EXISTS ${this.table} (key TEXT PRIMARY KEY, state TEXT NOT NULL, updated_at TEXT NOT NULL)`
+    );
+  }
+
+  /**
+   * Save the current state
+   * @param state - The state object to save
+   */
+  async saveState(state: S): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO ${this.table} (key, state, updated_at) VALUES (?, ?, ?) ` +
+        'ON CONFLICT(key) DO UPDATE SET state = excluded.state, updated_at = excluded.updated_at'
+      )
+      .run(this.key, JSON.stringify(state), new Date().toISOString());
+  }
+
+  /**
+   * Load the saved state
+   * @returns The loaded state or an empty object if nothing was saved
+   * @throws InvalidStateError if the saved state can't be parsed
+   */
+  async loadState(): Promise<S> {
+    const row = this.db.prepare(`SELECT state FROM ${this.table} WHERE key = ?`).get(this.key) as
+      | { state: string }
+      | undefined;
+    if (!row) {
+      return {} as S;
+    }
+
+    try {
+      return JSON.parse(row.state);
+    } catch (parseError) {
+      this.logger.warn(`Invalid state format in SQLite row ${this.key}`, {
+        event: 'state.loadFailed',
+        table: this.table,
+        key: this.key
+      });
+      // Starting from zero would silently redo the whole job
+      throw new InvalidStateError(`State in SQLite row ${this.key} can't be read`);
+    }
+  }
+
+  /**
+   * Clear saved state
+   */
+  async clearState(): Promise<void> {
+    this.db.prepare(`DELETE FROM ${this.table} WHERE key = ?`).run(this.key);
+  }
+
+  /**
+   * Close the database connection
+   */
+  close(): void {
+    this.db.close();
+  }
+}
+
+/**
+ * Open a database with better-sqlite3, which is loaded on demand so it stays optional
+ */
+function openDatabase(databaseFilePath: string): SqliteDatabase {
+  let Database: new (filePath: string) => SqliteDatabase;
+  try {
+    Database = require('better-sqlite3');
+  } catch (error) {
+    throw new Error('SqliteStateStore requires the "better-sqlite3" package: npm install better-sqlite3');
+  }
+  return new Database(databaseFilePath);
+}
@@ -1,19 +1,44 @@
 import fs from 'fs';
 import path from 'path';
-import { State } from '../types';
+import { BaseState, State, StateStore, StateLock, StateManagerOptions, CheckpointInfo, StateMigration, Logger } from '../types';
+import { acquireFileLock } from './fileLock';
+import { writeFileAtomic } from './atomicWrite';
+import { StateSchema } from './stateSchema';
+import { silentLogger } from './logger';
+import { InvalidStateError } from '../errors';
 
 /**
  * StateManager provides functions to save and load processing state
  */
-export class StateManager {
+export class StateManager<S extends BaseState = State> implements StateStore<S> {
   private filePath: string;
+  private checkpointDir: string;
+  private maxCheckpoints: number;
+  private checkpointSequence = 0;
+  private minWriteIntervalMs: number;
+  private pendingState?: S;
+  private pendingWaiters: Array<{ resolve: () => void; reject: (error: unknown) => void }> = [];
+  private writing?: Promise<void>;
+  private lastWriteAt = 0;
+  private lockStaleMs?: number;
+  private lockHeartbeatMs?: number;
+  private schema: StateSchema;
+  private logger: Logger;
   
   /**
    * Create a state manager instance
    * @param stateFilePath - Path to save state file
+   * @param options - Checkpoint, write coalescing, lock and schema options
    */
-  constructor(stateFilePath: string) {
+  constructor(stateFilePath: string, options: StateManagerOptions = {}) {
     this.filePath = stateFilePath;
+    this.checkpointDir = `${stateFilePath}.checkpoints`;
+    this.maxCheckpoints = options.maxCheckpoints ?? 3;
+    this.minWriteIntervalMs = options.minWriteIntervalMs ?? 0;
+    this.lockStaleMs = options.lockStaleMs;
+    this.lockHeartbeatMs = options.lockHeartbeatMs;
+    this.schema = new StateSchema(options.schemaVersion, options.migrations, options.validate);
+    this.logger = options.logger || silentLogger;
     
     // Ensure the directory exists
     const directory = path.dirname(this.filePath);
@@ -23,54 +48,211 @@ export class StateManager {
   }
   
   /**
-   * Save the current state to file
+   * Save the current state to file. Writes are serialized: while one write is
+   * in flight only the latest pending state is kept, and the returned promise
+   * resolves once that state (or a newer one) is on disk.
    * @param state - The state object to save
    */
-  async saveState(state: State): Promise<void> {
+  async saveState(state: S): Promise<void> {
     return new Promise((resolve, reject) => {
-      const data = JSON.stringify(state, null, 2);
-      fs.writeFile(this.filePath, data, 'utf8', (err) => {
-        if (err) {
-          reject(err);
-        } else {
-          resolve();
-        }
-      });
+      this.pendingState = this.schema.stamp(state) as S;
+      this.pendingWaiters.push({ resolve, reject });
+      if (!this.writing) {
+        this.writing = this.drainWrites();
+      }
     });
   }
   
   /**
-   * Load state from file
-   * @returns The loaded state or an empty object if file doesn't exist
+   * Wait until all pending state has been written
    */
-  async loadState(): Promise<State> {
-    return new Promise((resolve) => {
-      if (!fs.existsSync(this.filePath)) {
-        resolve({});
-        return;
+  async flush(): Promise<void> {
+    while (this.writing) {
+      await this.writing;
+    }
+  }
+  
+  /**
+   * Write pending states one at a time, waiting at least minWriteIntervalMs between writes
+   */
+  private async drainWrites(): Promise<void> {
+    while (this.pendingState) {
+      const wait = this.lastWriteAt + this.minWriteIntervalMs - Date.now();
+      if (wait > 0) {
+        await new Promise(resolve => setTimeout(resolve, wait));
       }
       
-      fs.readFile(this.filePath, 'utf8', (err, data) => {
-        if (err) {
-          console.warn(`Could not load state from ${this.filePath}:`, err.message);
-          resolve({});
-        } else {
-          try {
-            const state = JSON.parse(data);
-            resolve(state);
-          } catch (parseError) {
-            console.warn(`Invalid state file format in ${this.filePath}`);
-            resolve({});
-          }
-        }
+      const state = this.pendingState;
+      const waiters = this.pendingWaiters;
+      this.pendingState = undefined;
+      this.pendingWaiters = [];
+      
+      try {
+        await this.writeState(state);
+        waiters.forEach(waiter => waiter.resolve());
+      } catch (error) {
+        waiters.forEach(waiter => waiter.reject(error));
+      }
+      this.lastWriteAt = Date.now();
+    }
+    this.writing = undefined;
+  }
+  
+  /**
+   * Write a state to file. The file is replaced atomically, so a crash
+   * mid-write never leaves a truncated state file behind.
+   * @param state - The state object to write
+   */
+  private async writeState(state: S): Promise<void> {
+    const data = JSON.stringify(state, null, 2);
+    
+    let checkpoint: string | undefined;
+    if (this.maxCheckpoints > 0) {
+      await fs.promises.mkdir(this.checkpointDir, { recursive: true });
+      checkpoint = `${Date.now()}-${String(this.checkpointSequence++).padStart(6, '0')}`;
+      await writeFileAtomic(path.join(this.checkpointDir, `${checkpoint}.json`), data);
+      await this.pruneCheckpoints();
+    }
+    
+    await writeFileAtomic(this.filePath, data);
+    this.logger.debug(`Saved state to ${this.filePath}`, { event: 'state.save', path: this.filePath, checkpoint });
+  }
+  
+  /**
+   * Register a migration that upgrades a saved state from `fromVersion` to `fromVersion + 1`
+   * @param fromVersion - Schema version the migration upgrades from
+   * @param migration - Function returning the upgraded state
+   */
+  registerMigration(fromVersion: number, migration: StateMigration): this {
+    this.schema.register(fromVersion, migration);
+    return this;
+  }
+  
+  /**
+   * Load state from file. If the file is corrupt, the newest valid checkpoint
+   * is used instead. Older schema versions are migrated to the current one.
+   * @returns The loaded state or an empty object if file doesn't exist
+   * @throws InvalidStateError if neither the file nor a checkpoint can be read, or the state can't be migrated or fails validation
+   */
+  async loadState(): Promise<S> {
+    return (await this.schema.upgrade(await this.readLatestState())) as S;
+  }
+  
+  /**
+   * Read the state file, falling back to the newest readable checkpoint
+   * @throws InvalidStateError if the file exists but no readable state is found
+   */
+  private async readLatestState(): Promise<State> {
+    if (!fs.existsSync(this.filePath)) {
+      return {};
+    }
+    
+    try {
+      return await readStateFile(this.filePath);
+    } catch (error) {
+      this.logger.warn(`Could not load state from ${this.filePath}`, {
+        event: 'state.loadFailed',
+        path: this.filePath,
+        error: (error as Error).message
+      });
+    }
+    
+    // Fall back to the newest checkpoint that can be read
+    for (const checkpoint of await this.listCheckpoints()) {
+      try {
+        const state = await readStateFile(checkpoint.path);
+        this.logger.warn(`Recovered state from checkpoint ${checkpoint.id}`, {
+          event: 'state.recovered',
+          path: this.filePath,
+          checkpoint: checkpoint.id
+        });
+        return state;
+      } catch (error) {
+        this.logger.warn(`Skipping invalid checkpoint ${checkpoint.id}`, {
+          event: 'checkpoint.invalid',
+          path: checkpoint.path,
+          error: (error as Error).message
+        });
+      }
+    }
+    
+    // Starting from zero would silently redo the whole job
+    throw new InvalidStateError(`State file ${this.filePath} can't be read and no valid checkpoint was found`);
+  }
+  
+  /**
+   * List saved checkpoints, newest first
+   */
+  async listCheckpoints(): Promise<CheckpointInfo[]> {
+    if (!fs.existsSync(this.checkpointDir)) {
+      return [];
+    }
+    
+    const files = await fs.promises.readdir(this.checkpointDir);
+    return files
+      .filter(file => /^\d+-\d+\.json$/.test(file))
+      .sort()
+      .reverse()
+      .map(file => {
+        const id = file.replace(/\.json$/, '');
+        return {
+          id,
+          path: path.join(this.checkpointDir, file),
+          savedAt: new Date(Number(id.split('-')[0])).toISOString()
+        };
       });
+  }
+  
+  /**
+   * Roll the state back to a checkpoint. Newer checkpoints are discarded.
+   * @param id - Id of the checkpoint to restore
+   * @returns The restored state
+   */
+  async rollback(id: string): Promise<S> {
+    await this.flush();
+    const checkpoints = await this.listCheckpoints();
+    const index = checkpoints.findIndex(checkpoint => checkpoint.id === id);
+    if (index === -1) {
+      throw new Error(`Checkpoint ${id} not found`);
+    }
+    
+    const state = await this.schema.upgrade(await readStateFile(checkpoints[index].path));
+    await writeFileAtomic(this.filePath, JSON.stringify(this.schema.stamp(state), null, 2));
+    for (const newer of checkpoints.slice(0, index)) {
+      await fs.promises.unlink(newer.path);
+    }
+    this.logger.info(`Rolled state back to checkpoint ${id}`, { event: 'state.rollback', path: this.filePath, checkpoint: id });
+    return state as S;
+  }
+  
+  /**
+   * Take the single-runner lock stored next to the state file
+   * @returns A lock to release when the run is done
+   * @throws JobLockedError if another live runner holds the lock
+   */
+  async lock(): Promise<StateLock> {
+    return acquireFileLock(`${this.filePath}.lock`, {
+      staleMs: this.lockStaleMs,
+      heartbeatMs: this.lockHeartbeatMs,
+      logger: this.logger
     });
   }
   
   /**
-   * Clear saved state
+   * Clear saved state and its checkpoints
    */
   async clearState(): Promise<void> {
+    // Drop pending writes so they can't recreate the file after it is cleared
+    if (this.pendingState) {
+      this.pendingState = undefined;
+      this.pendingWaiters.splice(0).forEach(waiter => waiter.resolve());
+    }
+    await this.flush();
+    
+    if (fs.existsSync(this.checkpointDir)) {
+      await fs.promises.rm(this.checkpointDir, { recursive: true, force: true });
+    }
+    
     return new Promise((resolve, reject) => {
       if (!fs.existsSync(this.filePath)) {
         resolve();
@@ -86,4 +268,26 @@ export class StateManager {
       });
     });
   }
-} 
\ No newline at end of file
+  
+  /**
+   * Remove checkpoints beyond the configured limit
+   */
+  private async pruneCheckpoints(): Promise<void> {
+    const checkpoints = await this.listCheckpoints();
+    for (const checkpoint of checkpoints.slice(this.maxCheckpoints)) {
+      await fs.promises.unlink(checkpoint.path).catch(() => {});
+    }
+  }
+}
+
+/**
+ * Read and parse a state file
+ */
+async function readStateFile(filePath: string): Promise<State> {
+  const data = await fs.promises.readFile(filePath, 'utf8');
+  try {
+    return JSON.parse(data);
+  } catch (parseError) {
+    throw new Error(`Invalid state file format in ${filePath}`);
+  }
+}
@@ -0,0 +1,90 @@
+import { State, StateMigration, StateValidator } from '../types';
+import { InvalidStateError } from '../errors';
+
+/**
+ * StateSchema versions persisted state. Older states are upgraded one
+ * version at a time by registered migrations, then checked by an optional
+ * validator.
+ */
+export class StateSchema {
+  private version: number;
+  private migrations: Map<number, StateMigration> = new Map();
+  private validate?: StateValidator;
+
+  /**
+   * Create a state schema
+   * @param version - Current schema version (states without a version are treated as version 1)
+   * @param migrations - Migrations keyed by the version they upgrade from
+   * @param validate - Optional validator for loaded states
+   */
+  constructor(version = 1, migrations: Record<number, StateMigration> = {}, validate?: StateValidator) {
+    this.version = version;
+    this.validate = validate;
+    Object.keys(migrations).forEach(from => this.register(Number(from), migrations[Number(from)]));
+  }
+
+  /**
+   * Get the current schema version
+   */
+  getVersion(): number {
+    return this.version;
+  }
+
+  /**
+   * Register a migration that upgrades a state from `fromVersion` to `fromVersion + 1`
+   * @param fromVersion - Version the migration upgrades from
+   * @param migration - Function returning the upgraded state
+   */
+  register(fromVersion: number, migration: StateMigration): void {
+    this.migrations.set(fromVersion, migration);
+  }
+
+  /**
+   * Upgrade a loaded state to the current version and validate it
+   * @param state - The loaded state
+   * @returns The upgraded state
+   * @throws InvalidStateError if the state can't be upgraded or fails validation
+   */
+  async upgrade(state: State): Promise<State> {
+    if (Object.keys(state).length === 0) {
+      return state;
+    }
+
+    let version = typeof state.schemaVersion === 'number' ? state.schemaVersion : 1;
+    if (version > this.version) {
+      throw new InvalidStateError(
+        `State schema version ${version} is newer than the supported version ${this.version}`,
+        version
+      );
+    }
+
+    let upgraded = state;
+    while (version < this.version) {
+      const migration = this.migrations.get(version);
+      if (!migration) {
+        throw new InvalidStateError(`No migration registered from state schema version ${version}`, version);
+      }
+      upgraded = { ...(await migration(upgraded)), schemaVersion: version + 1 };
+      version++;
+    }
+
+    if (this.validate) {
+      const result = await this.validate(upgraded);
+      if (result === false || typeof result === 'string') {
+        throw new InvalidStateError(
+          `Invalid state: ${typeof result === 'string' ? result : 'rejected by validator'}`,
+          version
+        );
+      }
+    }
+    return upgraded;
+  }
+
+  /**
+   * Add the current schema version to a state before it is saved
+   * @param state - The state to save
+   */
+  stamp(state: State): State {
+    return { ...state, schemaVersion: this.version };
+  }
+}
@@ -1,19 +1,19 @@
-import { State } from '../types';
+import { BaseState, State } from '../types';
 
 /**
  * StateTracker provides a simple way to track progress and status of batch processes
  */
-export class StateTracker {
+export class StateTracker<S extends BaseState = State> {
   private totalItems: number;
   private startTime: number;
-  private state: State;
+  private state: S;
   
   /**
    * Create a new StateTracker instance
    * @param totalItems - Total number of items to process
    * @param initialState - Initial state (optional)
    */
-  constructor(totalItems: number, initialState: State = {}) {
+  constructor(totalItems: number, initialState: S = {} as S) {
     this.totalItems = totalItems;
     this.startTime = Date.now();
     this.state = {
@@ -29,7 +29,7 @@ export class StateTracker {
   /**
    * Get the current state
    */
-  getState(): State {
+  getState(): S {
     return { ...this.state };
   }
   
@@ -39,7 +39,7 @@ export class StateTracker {
    * @param failed - Number of failed items
    * @param additionalData - Additional data to merge into state
    */
-  updateProgress(processed: number, failed: number, additionalData: Record<string, any> = {}): State {
+  updateProgress(processed: number, failed: number, additionalData: Partial<S> = {}): S {
     this.state = {
       ...this.state,
       ...additionalData,